@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import logger, { addLogContext } from '../utils/logger';
 // use require to avoid TS module-not-found for jwks-rsa types
 const jwksClient: any = require('jwks-rsa');
 
@@ -29,19 +30,18 @@ function getSigningKeyAsync(kid: string): Promise<string> {
 }
 
 export default async function azureJwtAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
-  // Indicate middleware is active for debugging
-  console.log(`[auth] middleware invoked - path=${req.path} method=${req.method}`);
+  logger.debug({ path: req.path, method: req.method }, '[auth] middleware invoked');
 
   // Allow unauthenticated health endpoints
-  if (req.path === '/health' || req.path === '/healthz') {
-    console.log('[auth] skipping auth for health endpoint');
+  if (req.path === '/health' || req.path === '/healthz' || req.path.startsWith('/health/')) {
+    logger.debug('[auth] skipping auth for health endpoint');
     next();
     return;
   }
 
   const authHeader = (req.headers['authorization'] || req.headers['Authorization']) as string | undefined;
   if (!authHeader) {
-    console.log('[auth] missing Authorization header');
+    logger.warn('[auth] missing Authorization header');
     res.status(401).json({ error: 'Unauthorized' });
     return;
   }
@@ -57,7 +57,7 @@ export default async function azureJwtAuth(req: Request, res: Response, next: Ne
   try {
     unverifiedHeader = jwt.decode(token, { complete: true }) as { header?: any } | null;
   } catch (err: any) {
-    console.log('[auth] token decoding failed:', err && err.message ? err.message : String(err));
+    logger.warn({ reason: err && err.message ? err.message : String(err) }, '[auth] token decoding failed');
     res.status(401).json({ error: 'Unauthorized'});
     return;
   }
@@ -69,7 +69,7 @@ export default async function azureJwtAuth(req: Request, res: Response, next: Ne
   }
 
   try {
-    console.log('[auth] fetching signing key for kid=', kid);
+    logger.debug({ kid }, '[auth] fetching signing key');
     const signingKey = await getSigningKeyAsync(kid);
     const verifyOptions: any = {
       audience: CLIENT_ID || undefined,
@@ -81,18 +81,34 @@ export default async function azureJwtAuth(req: Request, res: Response, next: Ne
 
     // Extra tenant validation similar to Python implementation
     if (payload && payload.tid && TENANT_ID && payload.tid !== TENANT_ID) {
-      console.log('[auth] invalid tenant in token', payload.tid);
+      logger.warn({ tid: payload.tid }, '[auth] invalid tenant in token');
       res.status(401).json({ error: 'Unauthorized' });
       return;
     }
 
     (req as any).user = payload;
-    console.log('[auth] token valid for sub=', payload && payload.sub);
+    addLogContext({ sub: payload && payload.sub });
+    logger.debug('[auth] token valid');
     next();
     return;
   } catch (err: any) {
-    console.log('[auth] token verification failed:', err && err.message ? err.message : String(err));
+    logger.warn({ reason: err && err.message ? err.message : String(err) }, '[auth] token verification failed');
     res.status(401).json({ error: 'Unauthorized'});
     return;
   }
 }
+
+const ADMIN_ROLE = process.env.AZURE_ADMIN_ROLE || 'Conversion.Admin';
+
+/**
+ * Allow only callers whose token carries the admin app role; runs after azureJwtAuth
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const roles = req.user?.roles;
+  if (!Array.isArray(roles) || !roles.includes(ADMIN_ROLE)) {
+    logger.warn('[auth] admin role missing');
+    res.status(403).json({ error: 'Forbidden' });
+    return;
+  }
+  next();
+}
@@ -0,0 +1,75 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import fs from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import sourceFetchService from '../services/sourceFetchService';
+import { FetchedSource } from '../types';
+import { ValidationError } from '../utils/errors';
+
+/**
+ * Present a downloaded source document the way multer presents an upload
+ */
+function toUploadedFile(fieldname: string, source: FetchedSource): Express.Multer.File {
+  return {
+    fieldname,
+    originalname: source.originalName,
+    encoding: '7bit',
+    mimetype: source.mimeType,
+    size: source.size,
+    destination: path.dirname(source.path),
+    filename: path.basename(source.path),
+    path: source.path,
+    buffer: Buffer.alloc(0),
+    stream: Readable.from([])
+  };
+}
+
+/**
+ * Accept a JSON body referencing a remote document instead of a multipart upload
+ * Runs after multer; when the request carries no upload, `{ sourceUrl, headers? }`
+ * (or, with maxCount, `{ sources: [{ sourceUrl, headers? }] }`) is downloaded into
+ * the upload directory and exposed as req.file / req.files, so routes and their
+ * cleanup handle it like any upload. Errors go to the error handler.
+ * @param directory - Upload directory
+ * @param maxCount - Accept a `sources` array of up to this many documents instead of a single one
+ */
+export default function remoteInput(directory: string, maxCount?: number): RequestHandler {
+  return async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    if (!req.is('application/json') || req.file || (Array.isArray(req.files) && req.files.length > 0)) {
+      next();
+      return;
+    }
+
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const fetched: FetchedSource[] = [];
+    try {
+      if (maxCount === undefined) {
+        if (body.sourceUrl === undefined) {
+          next();
+          return;
+        }
+        const source = await sourceFetchService.fetchToFile(sourceFetchService.parseReference(body), directory);
+        fetched.push(source);
+        req.file = toUploadedFile('file', source);
+      } else {
+        if (body.sources === undefined) {
+          next();
+          return;
+        }
+        if (!Array.isArray(body.sources) || body.sources.length === 0 || body.sources.length > maxCount) {
+          throw new ValidationError(`sources must be an array of 1 to ${maxCount} { sourceUrl, headers? } objects`);
+        }
+        // Validate every reference before downloading any of them
+        const references = body.sources.map(source => sourceFetchService.parseReference(source));
+        for (const reference of references) {
+          fetched.push(await sourceFetchService.fetchToFile(reference, directory));
+        }
+        req.files = fetched.map(source => toUploadedFile('files', source));
+      }
+      next();
+    } catch (error) {
+      await Promise.all(fetched.map(source => fs.rm(source.path, { force: true })));
+      next(error);
+    }
+  };
+}
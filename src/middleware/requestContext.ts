@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AsyncResource } from 'async_hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { runWithLogContext } from '../utils/logger';
+
+// Accept caller-provided IDs only if they are short and log-safe
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Assign a request ID (from X-Request-Id or generated) and run the rest of the
+ * request inside a log context carrying it
+ */
+export default function requestContext(req: Request, res: Response, next: NextFunction): void {
+  const incoming = req.headers['x-request-id'];
+  const requestId = typeof incoming === 'string' && REQUEST_ID_PATTERN.test(incoming) ? incoming : uuidv4();
+
+  req.requestId = requestId;
+  res.setHeader('X-Request-Id', requestId);
+
+  runWithLogContext({ requestId }, () => next());
+}
+
+/**
+ * Wrap a callback-driven middleware (e.g. multer) so the handlers after it keep
+ * the request's log context; stream callbacks otherwise lose it
+ */
+export function preserveContext(middleware: RequestHandler): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    middleware(req, res, AsyncResource.bind(next));
+  };
+}
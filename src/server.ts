@@ -5,12 +5,47 @@ import rateLimit from 'express-rate-limit';
 import multer, { MulterError } from 'multer';
 import path from 'path';
 import fs from 'fs/promises';
+import { pipeline } from 'stream/promises';
 import { v4 as uuidv4 } from 'uuid';
 import conversionService from './services/conversionService';
 import queueService from './services/queueService';
 import storageService from './services/storageService';
+import webhookService from './services/webhookService';
+import healthService from './services/healthService';
+import metricsService from './services/metricsService';
+import inspectionService from './services/inspectionService';
+import resultCacheService from './services/resultCacheService';
+import gotenbergPoolService from './services/gotenbergPoolService';
 import dotenv from 'dotenv';
-import azureJwtAuth from './middleware/azureJwtAuth';
+import azureJwtAuth, { requireAdmin } from './middleware/azureJwtAuth';
+import remoteInput from './middleware/remoteInput';
+import requestContext, { preserveContext } from './middleware/requestContext';
+import { parseRangeHeader } from './utils/httpRange';
+import {
+  parseBoolean,
+  parseConversionOptions,
+  parseEncryption,
+  parseImageOptions,
+  parseRenderOptions,
+  parseStamps
+} from './utils/conversionOptions';
+import { DocumentPasswordError, GotenbergUnavailableError, SourceFetchError, ValidationError } from './utils/errors';
+import { allowedExtensions, checkInputOptions, findInputFormat } from './utils/inputFormats';
+import { serveEventStream } from './utils/sse';
+import {
+  BatchManifest,
+  BatchStatus,
+  JobEvent,
+  MergeSource,
+  OutputFormat,
+  RasterFormat,
+  SseMessage,
+  TextFormat,
+  WebhookConfig,
+  ZipEntry
+} from './types';
+import logger, { addLogContext } from './utils/logger';
+import { assertSecretKeyConfigured, encryptSecret, sealPdfEncryption } from './utils/secrets';
 
 // Load environment variables
 dotenv.config();
@@ -18,6 +53,20 @@ dotenv.config();
 const app = express();
 const PORT = parseInt(process.env.PORT || '8080', 10);
 const MAX_FILE_SIZE = parseInt(process.env.MAX_FILE_SIZE || '52428800', 10); // 50MB default
+const PNG_MIN_DPI = parseInt(process.env.PNG_MIN_DPI || '72', 10);
+const PNG_MAX_DPI = parseInt(process.env.PNG_MAX_DPI || '600', 10);
+const MAX_BATCH_FILES = parseInt(process.env.MAX_BATCH_FILES || '10', 10);
+const RASTER_FORMATS: RasterFormat[] = ['png', 'jpeg', 'webp', 'tiff'];
+const TEXT_FORMATS: TextFormat[] = ['text', 'json'];
+const BATCH_FORMATS: OutputFormat[] = ['pdf', ...RASTER_FORMATS, ...TEXT_FORMATS];
+const MAX_MERGE_FILES = parseInt(process.env.MAX_MERGE_FILES || '20', 10);
+const MERGE_SYNC_MAX_BYTES = parseInt(process.env.MERGE_SYNC_MAX_BYTES || '10485760', 10); // 10MB default
+const OUTPUT_NAME_PATTERN = /^[\w\-. ()]{1,100}$/;
+const PASSWORD_HEADER = 'x-document-password';
+const MAX_PASSWORD_LENGTH = 256;
+const INPUT_PREFIX = 'inputs/';
+const UPLOAD_DIR = '/tmp/conversions';
+const CACHE_KEY_PATTERN = /^[a-f0-9]{64}$/;
 
 // Middleware
 // app.use(
@@ -26,6 +75,7 @@ const MAX_FILE_SIZE = parseInt(process.env.MAX_FILE_SIZE || '52428800', 10); //
 //     xDownloadOptions: false,
 //   }),
 // );
+app.use(requestContext);
 app.use(cors());
 app.use(express.json());
 
@@ -36,19 +86,20 @@ app.use(express.json());
 const limiter = rateLimit({
   windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000', 10),
   max: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
-  message: 'Too many requests from this IP, please try again later.'
+  message: 'Too many requests from this IP, please try again later.',
+  // Orchestrator probes and metric scrapes must never be throttled
+  skip: (req: Request) => req.path === '/healthz' || req.path.startsWith('/health') || req.path === '/metrics'
 });
 app.use(limiter);
 
 // File upload configuration
 const storage = multer.diskStorage({
   destination: async (_req, _file, cb) => {
-    const uploadDir = '/tmp/conversions';
     try {
-      await fs.mkdir(uploadDir, { recursive: true });
-      cb(null, uploadDir);
+      await fs.mkdir(UPLOAD_DIR, { recursive: true });
+      cb(null, UPLOAD_DIR);
     } catch (error) {
-      cb(error as Error, uploadDir);
+      cb(error as Error, UPLOAD_DIR);
     }
   },
   filename: (_req, file, cb) => {
@@ -63,26 +114,249 @@ const upload = multer({
     fileSize: MAX_FILE_SIZE
   },
   fileFilter: (_req, file, cb) => {
-    const allowedExtensions = ['.docx', '.pptx', '.doc', '.ppt', '.xlsx', '.xls'];
-    const ext = path.extname(file.originalname).toLowerCase();
-    
-    if (allowedExtensions.includes(ext)) {
+    if (findInputFormat(file.originalname)) {
       cb(null, true);
     } else {
-      cb(new Error(`Invalid file type. Allowed types: ${allowedExtensions.join(', ')}`));
+      cb(new ValidationError(`Invalid file type. Allowed types: ${allowedExtensions().join(', ')}`));
+    }
+  }
+});
+
+
+/**
+ * Parse an optional DPI form field against the configured bounds
+ * @param value - Raw form value
+ * @returns DPI, undefined when not provided, or 'invalid'
+ */
+function parseDpi(value: unknown): number | undefined | 'invalid' {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const dpi = Number(value);
+  if (!Number.isInteger(dpi) || dpi < PNG_MIN_DPI || dpi > PNG_MAX_DPI) {
+    return 'invalid';
+  }
+  return dpi;
+}
+
+/**
+ * Parse optional webhook callback form fields
+ * @param body - Request body with `callbackUrl` and `callbackSecret`
+ * @returns Callback config, undefined when not provided, or 'invalid'
+ */
+function parseCallback(body: Record<string, unknown>): WebhookConfig | undefined | 'invalid' {
+  const { callbackUrl, callbackSecret } = body;
+  if (callbackUrl === undefined || callbackUrl === '') {
+    return undefined;
+  }
+  if (typeof callbackUrl !== 'string') {
+    return 'invalid';
+  }
+
+  try {
+    if (!webhookService.isAllowedDestination(new URL(callbackUrl))) {
+      return 'invalid';
     }
+  } catch {
+    return 'invalid';
+  }
+
+  const secret = typeof callbackSecret === 'string' && callbackSecret !== '' ? callbackSecret : undefined;
+  return { url: callbackUrl, secret };
+}
+
+/**
+ * Parse the optional output filename of a merged PDF
+ * @param value - Raw form value, with or without the .pdf extension
+ * @returns Filename ending in .pdf
+ * @throws ValidationError if the name contains unsupported characters
+ */
+function parseOutputName(value: unknown): string {
+  if (value === undefined || value === '') {
+    return 'merged.pdf';
+  }
+  const name = typeof value === 'string' ? value.replace(/\.pdf$/i, '') : '';
+  if (!OUTPUT_NAME_PATTERN.test(name) || name.startsWith('.')) {
+    throw new ValidationError('filename may only contain letters, digits, spaces, dots, dashes, underscores and parentheses');
+  }
+  return `${name}.pdf`;
+}
+
+/**
+ * Read the optional document password from the `password` form field, or else
+ * the X-Document-Password header
+ * @returns Password, undefined when not provided
+ * @throws ValidationError if the password is too long
+ */
+function parsePassword(req: Request): string | undefined {
+  const field = req.body.password;
+  const header = req.headers[PASSWORD_HEADER];
+  let password: string | undefined;
+  if (typeof field === 'string' && field !== '') {
+    password = field;
+  } else if (typeof header === 'string' && header !== '') {
+    password = header;
+  }
+  if (password !== undefined && password.length > MAX_PASSWORD_LENGTH) {
+    throw new ValidationError(`password must be at most ${MAX_PASSWORD_LENGTH} characters`);
+  }
+  return password;
+}
+
+/**
+ * Encrypt an optional document password for job data, which is kept in Redis
+ */
+function encryptPassword(password: string | undefined): string | undefined {
+  return password ? encryptSecret(password) : undefined;
+}
+
+/**
+ * Remove local upload files once they are no longer needed
+ */
+async function cleanupUploads(filePaths: string[]): Promise<void> {
+  for (const filePath of filePaths) {
+    try {
+      await fs.unlink(filePath);
+    } catch (err) {
+      logger.error({ err }, 'Error deleting temp file');
+    }
+  }
+}
+
+/**
+ * Stage an uploaded source document in object storage so any worker can fetch it
+ * @param jobId - Job the input belongs to
+ * @param file - Uploaded file
+ * @returns Object name of the staged input
+ */
+async function stageInput(jobId: string, file: Express.Multer.File): Promise<string> {
+  const objectName = `${INPUT_PREFIX}${jobId}${path.extname(file.originalname).toLowerCase()}`;
+  return await storageService.uploadFile(file.path, objectName);
+}
+
+/**
+ * Remove staged inputs whose jobs were never queued
+ */
+async function discardStagedInputs(objectNames: string[]): Promise<void> {
+  for (const objectName of objectNames) {
+    try {
+      await storageService.deleteFile(objectName);
+    } catch (err) {
+      logger.error({ err }, 'Error deleting staged input');
+    }
+  }
+}
+
+/**
+ * Send a cached PDF as the response to a synchronous conversion
+ * @returns Whether a cached result was sent; false leaves the response untouched
+ */
+async function sendCachedPdf(res: Response, cacheKey: string, filename: string): Promise<boolean> {
+  const cached = await resultCacheService.lookup(cacheKey);
+  if (!cached) {
+    return false;
+  }
+
+  let stream;
+  try {
+    stream = await storageService.downloadFile(cached.resultObject);
+  } catch (err) {
+    logger.warn({ err }, `Cached result ${cacheKey} is unavailable; converting instead`);
+    await resultCacheService.purge(cacheKey).catch(() => undefined);
+    return false;
+  }
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  if (cached.pdfSize !== undefined) {
+    res.setHeader('Content-Length', cached.pdfSize.toString());
+  }
+  res.setHeader('X-Cache', 'HIT');
+
+  stream.on('error', (err: Error) => {
+    logger.error({ err }, 'Error streaming cached result');
+    res.destroy(err);
+  });
+  stream.pipe(res);
+  return true;
+}
+
+// Liveness: the process is up and serving requests, dependencies are not checked
+app.get(['/healthz', '/health/live'], async (_req: Request, res: Response) => {
+  return res.status(200).json({ status: 'ok', timestamp: new Date().toISOString() });
+});
+
+// Readiness: stop routing traffic here when Redis or MinIO is unreachable
+app.get('/health/ready', async (_req: Request, res: Response) => {
+  const health = await healthService.checkReadiness();
+  return res.status(health.status === 'ok' ? 200 : 503).json(health);
+});
+
+// Full dependency health
+app.get('/health', async (_req: Request, res: Response) => {
+  const health = await healthService.checkAll();
+  return res.status(health.status === 'ok' ? 200 : 503).json(health);
+});
+
+// Prometheus metrics
+app.get('/metrics', async (_req: Request, res: Response) => {
+  try {
+    res.setHeader('Content-Type', metricsService.registry.contentType);
+    return res.status(200).send(await metricsService.registry.metrics());
+  } catch (error) {
+    logger.error({ err: error }, 'Metrics error');
+    return res.status(500).json({
+      error: 'Failed to collect metrics',
+      message: (error as Error).message
+    });
   }
 });
 
+// Document metadata and page count; nothing is stored
+app.post('/inspect', azureJwtAuth, preserveContext(upload.single('file')), remoteInput(UPLOAD_DIR), async (req: Request, res: Response): Promise<void> => {
+  let filePath: string | null = null;
+
+  try {
+    if (!req.file) {
+      res.status(400).json({ error: 'No file uploaded' });
+      return;
+    }
+
+    filePath = req.file.path;
+    const exact = parseBoolean('exact', req.body.exact) ?? false;
+    const password = parsePassword(req);
 
-// Healthcheck endpoint, replace with /health logic in future
-app.get('/healthz', async (_req: Request, res: Response) => {
-    return res.status(200).json({ status: 'ok' });
+    const metadata = await inspectionService.inspect(filePath, req.file.originalname, exact, password);
+    res.status(200).json(metadata);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: 'Invalid request', message: error.message });
+      return;
+    }
+    if (error instanceof DocumentPasswordError) {
+      res.status(error.status).json({ error: error.code, message: error.message });
+      return;
+    }
+    if (error instanceof GotenbergUnavailableError) {
+      res.status(503).json({ error: 'Converter unavailable', message: error.message });
+      return;
+    }
+    logger.error({ err: error }, 'Inspection error');
+    res.status(500).json({
+      error: 'Inspection failed',
+      message: (error as Error).message
+    });
+  } finally {
+    if (filePath) {
+      await cleanupUploads([filePath]);
+    }
+  }
 });
 
 // Synchronous PDF conversion
-app.post('/convert/pdf', azureJwtAuth, upload.single('file'), async (req: Request, res: Response): Promise<void> => {
+app.post('/convert/pdf', azureJwtAuth, preserveContext(upload.single('file')), remoteInput(UPLOAD_DIR), async (req: Request, res: Response): Promise<void> => {
   let filePath: string | null = null;
+  const startedAt = Date.now();
   
   try {
     if (!req.file) {
@@ -91,21 +365,79 @@ app.post('/convert/pdf', azureJwtAuth, upload.single('file'), async (req: Reques
     }
 
     filePath = req.file.path;
-    console.log(`Converting ${req.file.originalname} to PDF...`);
+    const options = parseConversionOptions(req.body);
+    checkInputOptions(req.file.originalname, options);
+    const password = parsePassword(req);
+    if (parseStamps(req.body) || parseEncryption('pdf', req.body)) {
+      throw new ValidationError('watermarks, stamps and encryption are applied to queued jobs; use /convert/batch with format=pdf');
+    }
+    const outputFilename = path.basename(req.file.originalname, path.extname(req.file.originalname)) + '.pdf';
+
+    // Serve an identical earlier conversion from the result cache; password-protected
+    // sources are never cached, as a matching hash does not prove the caller knows the password
+    const cacheKey = resultCacheService.isEnabled() && !password
+      ? await resultCacheService.computeKey(filePath, {
+        input: path.extname(req.file.originalname).toLowerCase(),
+        format: 'pdf',
+        options
+      })
+      : undefined;
+    if (cacheKey && await sendCachedPdf(res, cacheKey, outputFilename)) {
+      metricsService.observeConversion('pdf', req.file.originalname, 'completed', (Date.now() - startedAt) / 1000);
+      logger.info(`Served PDF of ${req.file.originalname} from the result cache`);
+      return;
+    }
 
-    const pdfBuffer = await conversionService.convertToPDF(filePath, req.file.originalname);
+    logger.info({ options }, `Converting ${req.file.originalname} to PDF...`);
+
+    const pdf = await conversionService.convertToPDFStream(filePath, req.file.originalname, options, password);
     
     // Set response headers
-    const outputFilename = path.basename(req.file.originalname, path.extname(req.file.originalname)) + '.pdf';
     res.setHeader('Content-Type', 'application/pdf');
     res.setHeader('Content-Disposition', `attachment; filename="${outputFilename}"`);
-    res.setHeader('Content-Length', pdfBuffer.length.toString());
-    
-    res.send(pdfBuffer);
+    if (pdf.size !== undefined) {
+      res.setHeader('Content-Length', pdf.size.toString());
+    }
+    if (cacheKey) {
+      res.setHeader('X-Cache', 'MISS');
+    }
+
+    // Pass the PDF on as the conversion engine produces it, copying it into the cache alongside
+    const cached = cacheKey
+      ? resultCacheService.storeCopy(cacheKey, pdf.stream, {
+        resultSuffix: '.pdf',
+        contentType: 'application/pdf',
+        pdfSize: pdf.size
+      })
+      : undefined;
+    await pipeline(pdf.stream, res);
     
-    console.log(`Successfully converted ${req.file.originalname} to PDF`);
+    metricsService.observeConversion('pdf', req.file.originalname, 'completed', (Date.now() - startedAt) / 1000);
+    logger.info(`Successfully converted ${req.file.originalname} to PDF`);
+    await cached;
   } catch (error) {
-    console.error('PDF conversion error:', error);
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: 'Invalid conversion options', message: error.message });
+      return;
+    }
+    if (error instanceof DocumentPasswordError) {
+      res.status(error.status).json({ error: error.code, message: error.message });
+      return;
+    }
+    if (error instanceof GotenbergUnavailableError) {
+      res.status(503).json({ error: 'Converter unavailable', message: error.message });
+      return;
+    }
+    logger.error({ err: error }, 'PDF conversion error');
+    if (req.file) {
+      metricsService.observeConversion('pdf', req.file.originalname, 'failed', (Date.now() - startedAt) / 1000);
+    }
+    if (res.headersSent) {
+      res.destroy(error as Error);
+      return;
+    }
+    // The PDF headers may already be set if the stream failed before its first byte
+    ['Content-Type', 'Content-Disposition', 'Content-Length', 'X-Cache'].forEach(header => res.removeHeader(header));
     res.status(500).json({
       error: 'Conversion failed',
       message: (error as Error).message
@@ -116,15 +448,743 @@ app.post('/convert/pdf', azureJwtAuth, upload.single('file'), async (req: Reques
       try {
         await fs.unlink(filePath);
       } catch (err) {
-        console.error('Error deleting temp file:', err);
+        logger.error({ err }, 'Error deleting temp file');
+      }
+    }
+  }
+});
+
+// Asynchronous image conversion (PNG, JPEG, WebP or multi-page TIFF)
+app.post(`/convert/:format(${RASTER_FORMATS.join('|')})`, azureJwtAuth, preserveContext(upload.single('file')), remoteInput(UPLOAD_DIR), async (req: Request, res: Response): Promise<void> => {
+  const format = req.params.format as RasterFormat;
+  let filePath: string | null = null;
+  let inputObject: string | null = null;
+
+  try {
+    if (!req.file) {
+      res.status(400).json({ error: 'No file uploaded' });
+      return;
+    }
+
+    filePath = req.file.path;
+
+    const dpi = parseDpi(req.body.dpi);
+    if (dpi === 'invalid') {
+      res.status(400).json({
+        error: 'Invalid DPI',
+        message: `DPI must be an integer between ${PNG_MIN_DPI} and ${PNG_MAX_DPI}`
+      });
+      return;
+    }
+
+    const options = parseConversionOptions(req.body);
+    checkInputOptions(req.file.originalname, options);
+    const render = parseRenderOptions(req.body);
+    const imageOptions = parseImageOptions(format, req.body);
+    const includeText = parseBoolean('includeText', req.body.includeText);
+    const stamps = parseStamps(req.body);
+    // Rejects encryption fields, which only apply to PDF output
+    parseEncryption(format, req.body);
+    const password = parsePassword(req);
+
+    const callback = parseCallback(req.body);
+    if (callback === 'invalid') {
+      res.status(400).json({
+        error: 'Invalid callback',
+        message: 'callbackUrl must be an absolute http(s) URL on a public host'
+      });
+      return;
+    }
+
+    const jobId = uuidv4();
+    addLogContext({ jobId });
+    inputObject = await stageInput(jobId, req.file);
+    await queueService.addImageConversionJob({
+      jobId,
+      inputObject,
+      originalName: req.file.originalname,
+      format,
+      dpi,
+      render,
+      imageOptions,
+      includeText,
+      options,
+      stamps,
+      encryptedPassword: encryptPassword(password),
+      callback,
+      requestId: req.requestId,
+      sub: req.user?.sub
+    });
+
+    // The worker owns the staged input from here on
+    inputObject = null;
+
+    res.status(202).json({
+      jobId,
+      status: 'queued',
+      message: 'Conversion job queued successfully',
+      statusUrl: `/jobs/${jobId}`
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: 'Invalid conversion options', message: error.message });
+      return;
+    }
+    logger.error({ err: error }, `${format.toUpperCase()} job submission error`);
+    res.status(500).json({
+      error: 'Failed to queue conversion',
+      message: (error as Error).message
+    });
+  } finally {
+    // Cleanup local upload, and the staged input if the job was never queued
+    if (filePath) {
+      await cleanupUploads([filePath]);
+    }
+    if (inputObject) {
+      await discardStagedInputs([inputObject]);
+    }
+  }
+});
+
+// Asynchronous text extraction (plain text or per-page JSON)
+app.post(`/convert/:format(${TEXT_FORMATS.join('|')})`, azureJwtAuth, preserveContext(upload.single('file')), remoteInput(UPLOAD_DIR), async (req: Request, res: Response): Promise<void> => {
+  const format = req.params.format as TextFormat;
+  let filePath: string | null = null;
+  let inputObject: string | null = null;
+
+  try {
+    if (!req.file) {
+      res.status(400).json({ error: 'No file uploaded' });
+      return;
+    }
+
+    filePath = req.file.path;
+
+    const options = parseConversionOptions(req.body);
+    checkInputOptions(req.file.originalname, options);
+    const password = parsePassword(req);
+
+    const callback = parseCallback(req.body);
+    if (callback === 'invalid') {
+      res.status(400).json({
+        error: 'Invalid callback',
+        message: 'callbackUrl must be an absolute http(s) URL on a public host'
+      });
+      return;
+    }
+
+    const jobId = uuidv4();
+    addLogContext({ jobId });
+    inputObject = await stageInput(jobId, req.file);
+    await queueService.addPDFConversionJob({
+      jobId,
+      inputObject,
+      originalName: req.file.originalname,
+      format,
+      options,
+      encryptedPassword: encryptPassword(password),
+      callback,
+      requestId: req.requestId,
+      sub: req.user?.sub
+    });
+
+    // The worker owns the staged input from here on
+    inputObject = null;
+
+    res.status(202).json({
+      jobId,
+      status: 'queued',
+      message: 'Extraction job queued successfully',
+      statusUrl: `/jobs/${jobId}`
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: 'Invalid conversion options', message: error.message });
+      return;
+    }
+    logger.error({ err: error }, `${format.toUpperCase()} job submission error`);
+    res.status(500).json({
+      error: 'Failed to queue conversion',
+      message: (error as Error).message
+    });
+  } finally {
+    // Cleanup local upload, and the staged input if the job was never queued
+    if (filePath) {
+      await cleanupUploads([filePath]);
+    }
+    if (inputObject) {
+      await discardStagedInputs([inputObject]);
+    }
+  }
+});
+
+// Batch conversion
+app.post('/convert/batch', azureJwtAuth, preserveContext(upload.array('files', MAX_BATCH_FILES)), remoteInput(UPLOAD_DIR, MAX_BATCH_FILES), async (req: Request, res: Response): Promise<void> => {
+  const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+  let unqueuedInputs: string[] = [];
+
+  try {
+    if (files.length === 0) {
+      res.status(400).json({ error: 'No files uploaded' });
+      return;
+    }
+
+    // Validate the whole request before queueing anything
+    const format = (req.body.format || 'pdf') as OutputFormat;
+    if (!BATCH_FORMATS.includes(format)) {
+      res.status(400).json({
+        error: 'Invalid format',
+        message: `Format must be one of: ${BATCH_FORMATS.join(', ')}`
+      });
+      return;
+    }
+
+    const dpi = parseDpi(req.body.dpi);
+    if (dpi === 'invalid') {
+      res.status(400).json({
+        error: 'Invalid DPI',
+        message: `DPI must be an integer between ${PNG_MIN_DPI} and ${PNG_MAX_DPI}`
+      });
+      return;
+    }
+
+    const options = parseConversionOptions(req.body);
+    files.forEach(file => checkInputOptions(file.originalname, options));
+    const rasterFormat = RASTER_FORMATS.find(f => f === format);
+    const render = rasterFormat ? parseRenderOptions(req.body) : undefined;
+    const imageOptions = rasterFormat ? parseImageOptions(rasterFormat, req.body) : undefined;
+    const includeText = rasterFormat ? parseBoolean('includeText', req.body.includeText) : undefined;
+    const stamps = rasterFormat || format === 'pdf' ? parseStamps(req.body) : undefined;
+    const encryption = parseEncryption(format, req.body);
+    const encryptedPassword = encryptPassword(parsePassword(req));
+
+    const callback = parseCallback(req.body);
+    if (callback === 'invalid') {
+      res.status(400).json({
+        error: 'Invalid callback',
+        message: 'callbackUrl must be an absolute http(s) URL on a public host'
+      });
+      return;
+    }
+
+    const batchId = uuidv4();
+    addLogContext({ batchId });
+    const jobs: { jobId: string; filename: string; status: string }[] = [];
+
+    // Registered up front so the first finishing job already sees it
+    if (callback) {
+      await webhookService.registerBatchCallback(batchId, callback);
+    }
+
+    for (const file of files) {
+      const jobId = uuidv4();
+      const inputObject = await stageInput(jobId, file);
+      unqueuedInputs.push(inputObject);
+      const jobData = {
+        jobId,
+        batchId,
+        inputObject,
+        originalName: file.originalname,
+        options,
+        encryptedPassword,
+        requestId: req.requestId,
+        sub: req.user?.sub
+      };
+
+      if (rasterFormat) {
+        await queueService.addImageConversionJob({ ...jobData, format, dpi, render, imageOptions, includeText, stamps });
+      } else {
+        await queueService.addPDFConversionJob({
+          ...jobData,
+          format,
+          stamps,
+          encryption: encryption && sealPdfEncryption(encryption)
+        });
+      }
+
+      // The worker owns this staged input now
+      unqueuedInputs = unqueuedInputs.filter(o => o !== inputObject);
+      jobs.push({ jobId, filename: file.originalname, status: 'queued' });
+    }
+
+    logger.info(`Batch ${batchId} queued with ${jobs.length} ${format} jobs`);
+
+    res.status(202).json({
+      batchId,
+      status: 'queued',
+      jobs,
+      message: `${jobs.length} conversion jobs queued successfully`,
+      statusUrl: `/jobs/batch/${batchId}`
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: 'Invalid conversion options', message: error.message });
+      return;
+    }
+    logger.error({ err: error }, 'Batch submission error');
+    res.status(500).json({
+      error: 'Failed to queue batch',
+      message: (error as Error).message
+    });
+  } finally {
+    await cleanupUploads(files.map(f => f.path));
+    await discardStagedInputs(unqueuedInputs);
+  }
+});
+
+// Merge several documents into one PDF; small requests are converted
+// synchronously, larger ones are queued
+app.post('/convert/merge', azureJwtAuth, preserveContext(upload.array('files', MAX_MERGE_FILES)), remoteInput(UPLOAD_DIR, MAX_MERGE_FILES), async (req: Request, res: Response): Promise<void> => {
+  const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+  let unqueuedInputs: string[] = [];
+  let syncOutputName: string | null = null;
+  const startedAt = Date.now();
+
+  try {
+    if (files.length < 2) {
+      res.status(400).json({ error: 'At least two files are required to merge' });
+      return;
+    }
+
+    // Validate the whole request before converting or queueing anything
+    const options = parseConversionOptions(req.body);
+    files.forEach(file => checkInputOptions(file.originalname, options));
+    const bookmarks = parseBoolean('bookmarks', req.body.bookmarks) ?? false;
+    const outputName = parseOutputName(req.body.filename);
+    const stamps = parseStamps(req.body);
+    const encryption = parseEncryption('pdf', req.body);
+    const password = parsePassword(req);
+
+    const callback = parseCallback(req.body);
+    if (callback === 'invalid') {
+      res.status(400).json({
+        error: 'Invalid callback',
+        message: 'callbackUrl must be an absolute http(s) URL on a public host'
+      });
+      return;
+    }
+
+    // Files are merged in the order they appear in the form; stamping and
+    // encryption are left to the worker, so such merges are always queued
+    const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    if (totalBytes <= MERGE_SYNC_MAX_BYTES && !stamps && !encryption) {
+      syncOutputName = outputName;
+      logger.info({ options, bookmarks }, `Merging ${files.length} files into ${outputName}...`);
+
+      const pdfBuffer = await conversionService.mergeToPDF(
+        files.map(file => ({ filePath: file.path, originalName: file.originalname })),
+        options,
+        bookmarks,
+        password
+      );
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${outputName}"`);
+      res.setHeader('Content-Length', pdfBuffer.length.toString());
+      res.send(pdfBuffer);
+
+      metricsService.observeConversion('merge', outputName, 'completed', (Date.now() - startedAt) / 1000);
+      logger.info(`Successfully merged ${files.length} files into ${outputName}`);
+      return;
+    }
+
+    const jobId = uuidv4();
+    addLogContext({ jobId });
+    const sources: MergeSource[] = [];
+    for (const [index, file] of files.entries()) {
+      const objectName = `${INPUT_PREFIX}${jobId}-${index + 1}${path.extname(file.originalname).toLowerCase()}`;
+      const inputObject = await storageService.uploadFile(file.path, objectName);
+      unqueuedInputs.push(inputObject);
+      sources.push({ inputObject, originalName: file.originalname });
+    }
+
+    await queueService.addMergeJob({
+      jobId,
+      sources,
+      originalName: outputName,
+      bookmarks,
+      options,
+      stamps,
+      encryption: encryption && sealPdfEncryption(encryption),
+      encryptedPassword: encryptPassword(password),
+      callback,
+      requestId: req.requestId,
+      sub: req.user?.sub
+    });
+
+    // The worker owns the staged inputs from here on
+    unqueuedInputs = [];
+
+    res.status(202).json({
+      jobId,
+      status: 'queued',
+      message: 'Merge job queued successfully',
+      statusUrl: `/jobs/${jobId}`
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({ error: 'Invalid conversion options', message: error.message });
+      return;
+    }
+    if (error instanceof DocumentPasswordError) {
+      res.status(error.status).json({ error: error.code, message: error.message });
+      return;
+    }
+    if (error instanceof GotenbergUnavailableError) {
+      res.status(503).json({ error: 'Converter unavailable', message: error.message });
+      return;
+    }
+    logger.error({ err: error }, 'PDF merge error');
+    if (syncOutputName) {
+      metricsService.observeConversion('merge', syncOutputName, 'failed', (Date.now() - startedAt) / 1000);
+    }
+    res.status(500).json({
+      error: 'Merge failed',
+      message: (error as Error).message
+    });
+  } finally {
+    await cleanupUploads(files.map(f => f.path));
+    await discardStagedInputs(unqueuedInputs);
+  }
+});
+
+// Batch status
+app.get('/jobs/batch/:batchId', azureJwtAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const batchStatus = await queueService.getBatchStatus(req.params.batchId);
+    if (batchStatus.totalJobs === 0) {
+      res.status(404).json({ error: 'Batch not found' });
+      return;
+    }
+
+    res.status(200).json(batchStatus);
+  } catch (error) {
+    logger.error({ err: error }, 'Batch status error');
+    res.status(500).json({
+      error: 'Failed to get batch status',
+      message: (error as Error).message
+    });
+  }
+});
+
+// Batch result bundle
+app.get('/jobs/batch/:batchId/download', azureJwtAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const batchStatus = await queueService.getBatchStatus(req.params.batchId);
+    if (batchStatus.totalJobs === 0) {
+      res.status(404).json({ error: 'Batch not found' });
+      return;
+    }
+
+    if (batchStatus.status === 'queued' || batchStatus.status === 'processing') {
+      res.status(409).json({
+        error: 'Batch not finished',
+        message: `${batchStatus.completed + batchStatus.failed} of ${batchStatus.totalJobs} jobs finished`
+      });
+      return;
+    }
+
+    const manifest: BatchManifest = {
+      batchId: batchStatus.batchId,
+      status: batchStatus.status,
+      generatedAt: new Date().toISOString(),
+      completed: [],
+      failed: []
+    };
+    const entries: ZipEntry[] = [];
+    const usedFolders = new Set<string>();
+
+    for (const job of batchStatus.jobs) {
+      if (job.status === 'failed') {
+        manifest.failed.push({ jobId: job.jobId, originalName: job.originalName, error: job.error });
+        continue;
       }
+      if (!job.resultPath) {
+        continue;
+      }
+
+      // One folder per source document, disambiguated when names repeat
+      let folder = path.basename(job.originalName);
+      for (let i = 2; usedFolders.has(folder); i++) {
+        folder = `${path.basename(job.originalName)} (${i})`;
+      }
+      usedFolders.add(folder);
+
+      const entryName = `${folder}/${job.filename ?? path.basename(job.resultPath)}`;
+      entries.push({ name: entryName, objectName: job.resultPath });
+      if (job.textPath) {
+        entries.push({ name: `${folder}/${path.basename(job.textPath)}`, objectName: job.textPath });
+      }
+      manifest.completed.push({ jobId: job.jobId, originalName: job.originalName, path: entryName });
+    }
+
+    entries.push({ name: 'manifest.json', content: JSON.stringify(manifest, null, 2) });
+
+    res.status(200);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="batch-${batchStatus.batchId}.zip"`);
+
+    if (await storageService.streamZip(entries, res)) {
+      logger.info(`Streamed batch ${batchStatus.batchId} bundle with ${manifest.completed.length} results`);
+    }
+  } catch (error) {
+    logger.error({ err: error }, 'Batch download error');
+    if (res.headersSent || res.writableEnded) {
+      res.destroy(error as Error);
+      return;
+    }
+    res.status(500).json({
+      error: 'Download failed',
+      message: (error as Error).message
+    });
+  }
+});
+
+// Live batch progress (Server-Sent Events)
+app.get('/jobs/batch/:batchId/events', azureJwtAuth, async (req: Request, res: Response): Promise<void> => {
+  const { batchId } = req.params;
+
+  const batchMessages = (batchStatus: BatchStatus): SseMessage[] => {
+    const terminal = batchStatus.status !== 'queued' && batchStatus.status !== 'processing';
+    const messages: SseMessage[] = [{ event: 'status', data: batchStatus }];
+    if (terminal) {
+      messages.push({ event: 'completed', data: batchStatus, terminal: true });
+    }
+    return messages;
+  };
+
+  try {
+    const found = await serveEventStream<JobEvent>(
+      req,
+      res,
+      (listener) => queueService.subscribeToBatch(batchId, listener),
+      async () => {
+        const batchStatus = await queueService.getBatchStatus(batchId);
+        return batchStatus.totalJobs === 0 ? null : batchMessages(batchStatus);
+      },
+      async (event) => {
+        if (event.type === 'progress') {
+          return [{ event: 'progress', data: event.status }];
+        }
+        return batchMessages(await queueService.getBatchStatus(batchId));
+      }
+    );
+
+    if (!found) {
+      res.status(404).json({ error: 'Batch not found' });
     }
+  } catch (error) {
+    logger.error({ err: error }, 'Batch event stream error');
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: 'Failed to stream batch events',
+        message: (error as Error).message
+      });
+    }
+  }
+});
+
+// Batch webhook delivery log
+app.get('/jobs/batch/:batchId/webhooks', azureJwtAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const deliveries = await webhookService.getDeliveries(req.params.batchId);
+    res.status(200).json({ items: deliveries, total: deliveries.length });
+  } catch (error) {
+    logger.error({ err: error }, 'Webhook log error');
+    res.status(500).json({
+      error: 'Failed to get webhook deliveries',
+      message: (error as Error).message
+    });
+  }
+});
+
+// Job status
+app.get('/jobs/:jobId', azureJwtAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const jobStatus = await queueService.getJobStatus(req.params.jobId);
+    if (!jobStatus) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+
+    // Stored URLs may have expired, always hand out a fresh one
+    if (jobStatus.status === 'completed' && jobStatus.resultPath) {
+      jobStatus.downloadUrl = await storageService.getPresignedUrl(jobStatus.resultPath);
+    }
+    if (jobStatus.status === 'completed' && jobStatus.textPath) {
+      jobStatus.textDownloadUrl = await storageService.getPresignedUrl(jobStatus.textPath);
+    }
+
+    res.status(200).json(jobStatus);
+  } catch (error) {
+    logger.error({ err: error }, 'Job status error');
+    res.status(500).json({
+      error: 'Failed to get job status',
+      message: (error as Error).message
+    });
+  }
+});
+
+// Job result download (supports single byte-range requests)
+app.get('/jobs/:jobId/download', azureJwtAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const jobStatus = await queueService.getJobStatus(req.params.jobId);
+    if (!jobStatus) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+
+    const resultPath = jobStatus.resultPath ?? null;
+    if (jobStatus.status !== 'completed' || !resultPath) {
+      res.status(409).json({
+        error: 'Result not available',
+        message: `Job is ${jobStatus.status}`
+      });
+      return;
+    }
+
+    const stat = await storageService.getFileStat(resultPath);
+    const filename = jobStatus.filename ?? path.basename(resultPath);
+
+    res.setHeader('Content-Type', jobStatus.contentType ?? 'application/octet-stream');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('ETag', `"${stat.etag}"`);
+
+    const range = parseRangeHeader(req.headers.range, stat.size);
+    if (range === 'unsatisfiable') {
+      res.setHeader('Content-Range', `bytes */${stat.size}`);
+      res.status(416).end();
+      return;
+    }
+
+    let stream;
+    if (range) {
+      const length = range.end - range.start + 1;
+      stream = await storageService.downloadPartialFile(resultPath, range.start, length);
+      res.status(206);
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${stat.size}`);
+      res.setHeader('Content-Length', length.toString());
+    } else {
+      stream = await storageService.downloadFile(resultPath);
+      res.status(200);
+      res.setHeader('Content-Length', stat.size.toString());
+    }
+
+    stream.on('error', (err: Error) => {
+      logger.error({ err }, 'Error streaming job result');
+      res.destroy(err);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    logger.error({ err: error }, 'Job download error');
+    if (res.headersSent) {
+      res.destroy(error as Error);
+      return;
+    }
+    res.status(500).json({
+      error: 'Download failed',
+      message: (error as Error).message
+    });
   }
 });
 
+// Live job progress (Server-Sent Events)
+app.get('/jobs/:jobId/events', azureJwtAuth, async (req: Request, res: Response): Promise<void> => {
+  const { jobId } = req.params;
+
+  try {
+    const found = await serveEventStream<JobEvent>(
+      req,
+      res,
+      (listener) => queueService.subscribeToJob(jobId, listener),
+      async () => {
+        const jobStatus = await queueService.getJobStatus(jobId);
+        if (!jobStatus) {
+          return null;
+        }
+        const messages: SseMessage[] = [{ event: 'status', data: jobStatus }];
+        if (jobStatus.status === 'completed' || jobStatus.status === 'failed') {
+          messages.push({ event: jobStatus.status, data: jobStatus, terminal: true });
+        }
+        return messages;
+      },
+      async (event) => [{
+        event: event.type,
+        data: event.status,
+        terminal: event.type === 'completed' || event.type === 'failed'
+      }]
+    );
+
+    if (!found) {
+      res.status(404).json({ error: 'Job not found' });
+    }
+  } catch (error) {
+    logger.error({ err: error }, 'Job event stream error');
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: 'Failed to stream job events',
+        message: (error as Error).message
+      });
+    }
+  }
+});
+
+// Job webhook delivery log
+app.get('/jobs/:jobId/webhooks', azureJwtAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const deliveries = await webhookService.getDeliveries(req.params.jobId);
+    res.status(200).json({ items: deliveries, total: deliveries.length });
+  } catch (error) {
+    logger.error({ err: error }, 'Webhook log error');
+    res.status(500).json({
+      error: 'Failed to get webhook deliveries',
+      message: (error as Error).message
+    });
+  }
+});
+
+// Drop every cached conversion result (admin only)
+app.delete('/admin/cache', azureJwtAuth, requireAdmin, async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const purged = await resultCacheService.purge();
+    res.status(200).json({ purged });
+  } catch (error) {
+    logger.error({ err: error }, 'Cache purge error');
+    res.status(500).json({
+      error: 'Cache purge failed',
+      message: (error as Error).message
+    });
+  }
+});
+
+// Drop one cached conversion result by its key (admin only)
+app.delete('/admin/cache/:key', azureJwtAuth, requireAdmin, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { key } = req.params;
+    if (!CACHE_KEY_PATTERN.test(key)) {
+      res.status(400).json({ error: 'Invalid cache key', message: 'Cache keys are 64 lowercase hex characters' });
+      return;
+    }
+    const purged = await resultCacheService.purge(key);
+    res.status(200).json({ purged });
+  } catch (error) {
+    logger.error({ err: error }, 'Cache purge error');
+    res.status(500).json({
+      error: 'Cache purge failed',
+      message: (error as Error).message
+    });
+  }
+});
+
+// Load and circuit state of the Gotenberg instances (admin only)
+app.get('/admin/gotenberg', azureJwtAuth, requireAdmin, (_req: Request, res: Response): void => {
+  res.status(200).json({ instances: gotenbergPoolService.getStats() });
+});
+
 // Error handling middleware
 app.use((err: Error, _req: Request, res: Response, _next: NextFunction): void => {
-  console.error('Error:', err);
+  logger.error({ err }, 'Error');
   
   if (err instanceof MulterError) {
     if (err.code === 'LIMIT_FILE_SIZE') {
@@ -140,6 +1200,22 @@ app.use((err: Error, _req: Request, res: Response, _next: NextFunction): void =>
     });
     return;
   }
+
+  if (err instanceof ValidationError) {
+    res.status(400).json({
+      error: 'File upload error',
+      message: err.message
+    });
+    return;
+  }
+
+  if (err instanceof SourceFetchError) {
+    res.status(502).json({
+      error: 'Source download failed',
+      message: err.message
+    });
+    return;
+  }
   
   res.status(500).json({
     error: 'Internal server error',
@@ -158,43 +1234,52 @@ app.use((_req: Request, res: Response): void => {
 // Start server
 async function startServer(): Promise<void> {
   try {
+    // API and workers share the key that seals passwords in job data
+    assertSecretKeyConfigured();
+
     // Initialize services
     await storageService.initialize();
     await queueService.initialize();
+    await webhookService.initialize();
+    await resultCacheService.initialize();
     // Log deployed middleware file info to help verify correct image/version
     try {
       const deployedPath = '/app/dist/middleware/azureJwtAuth.js';
       const stat = await fs.stat(deployedPath).catch(() => null);
       if (stat) {
-        console.log(`BUILD INFO: deployed ${deployedPath} size=${stat.size} mtime=${stat.mtime.toISOString()}`);
+        logger.info(`BUILD INFO: deployed ${deployedPath} size=${stat.size} mtime=${stat.mtime.toISOString()}`);
       } else {
-        console.log(`BUILD INFO: ${deployedPath} not found in container filesystem`);
+        logger.info(`BUILD INFO: ${deployedPath} not found in container filesystem`);
       }
     } catch (err) {
-      console.log('BUILD INFO: error checking deployed middleware file', (err as Error).message);
+      logger.info({ err }, 'BUILD INFO: error checking deployed middleware file');
     }
 
     app.listen(PORT, '0.0.0.0', () => {
-      console.log(`Document Conversion API Server running on port ${PORT}`);
-      console.log(`Environment: ${process.env.NODE_ENV}`);
-      console.log(`Health check: http://localhost:${PORT}/health`);
+      logger.info(`Document Conversion API Server running on port ${PORT}`);
+      logger.info(`Environment: ${process.env.NODE_ENV}`);
+      logger.info(`Health check: http://localhost:${PORT}/health`);
     });
   } catch (error) {
-    console.error('Failed to start server:', error);
+    logger.error({ err: error }, 'Failed to start server');
     process.exit(1);
   }
 }
 
 // Graceful shutdown
 process.on('SIGTERM', async () => {
-  console.log('SIGTERM received, shutting down gracefully...');
+  logger.info('SIGTERM received, shutting down gracefully...');
   await queueService.close();
+  await webhookService.close();
+  await resultCacheService.close();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
-  console.log('SIGINT received, shutting down gracefully...');
+  logger.info('SIGINT received, shutting down gracefully...');
   await queueService.close();
+  await webhookService.close();
+  await resultCacheService.close();
   process.exit(0);
 });
 
@@ -1,151 +1,626 @@
-import axios from 'axios';
-import FormData from 'form-data';
 import fs from 'fs';
-import { exec } from 'child_process';
+import { execFile } from 'child_process';
 import { promisify } from 'util';
 import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import gotenbergEngine from './gotenbergEngine';
+import metricsService from './metricsService';
+import sofficeEngine from './sofficeEngine';
+import {
+  ConversionEngine,
+  ConversionEngineName,
+  ConversionOptions,
+  ImageConversionResult,
+  ImageOptions,
+  ImageSize,
+  OutputFormat,
+  PageSize,
+  PdfEncryption,
+  PdfPart,
+  PdfPermission,
+  PdfStamps,
+  PdfStream,
+  RasterFormat,
+  RasterScale,
+  RenderOptions,
+  TextFormat,
+  TiffCompression
+} from '../types';
+import { expandPageRanges } from '../utils/conversionOptions';
+import { getInputFormat } from '../utils/inputFormats';
+import logger from '../utils/logger';
+import { imageToPdf, mergePdfs, stampPdf } from '../utils/pdf';
+import { parseBboxLayout } from '../utils/pdfText';
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
-const GOTENBERG_URL = process.env.GOTENBERG_URL || 'http://gotenberg:3000';
+const CONVERSION_ENGINE = process.env.CONVERSION_ENGINE || 'gotenberg';
 const PNG_DPI = parseInt(process.env.PNG_DPI || '150', 10);
+const THUMBNAIL_SIZE = parseInt(process.env.PNG_THUMBNAIL_SIZE || '256', 10);
+const IMAGE_QUALITY = parseInt(process.env.IMAGE_QUALITY || '85', 10);
+const TIFF_COMPRESSION = (process.env.TIFF_COMPRESSION || 'lzw') as TiffCompression;
+const QPDF_TIMEOUT_MS = 120000;
+const PDFINFO_TIMEOUT_MS = 60000;
+const PDFTOTEXT_TIMEOUT_MS = 120000;
+// Total size of the page images pdftoppm may write for one conversion
+const PDFTOPPM_MAX_OUTPUT_BYTES = parseInt(process.env.PDFTOPPM_MAX_OUTPUT_BYTES || String(1024 * 1024 * 1024), 10);
+// Longest pdftoppm may take to render every page of one conversion
+const PDFTOPPM_TIMEOUT_MS = parseInt(process.env.PDFTOPPM_TIMEOUT_MS || '120000', 10);
+// cwebp and tiffcp
+const IMAGE_TOOL_TIMEOUT_MS = 120000;
+
+const OUTPUT_TYPES: Record<OutputFormat, { extension: string; contentType: string }> = {
+  pdf: { extension: '.pdf', contentType: 'application/pdf' },
+  png: { extension: '.png', contentType: 'image/png' },
+  jpeg: { extension: '.jpg', contentType: 'image/jpeg' },
+  webp: { extension: '.webp', contentType: 'image/webp' },
+  tiff: { extension: '.tif', contentType: 'image/tiff' },
+  text: { extension: '.txt', contentType: 'text/plain; charset=utf-8' },
+  json: { extension: '.json', contentType: 'application/json' }
+};
+
+/**
+ * Conversion engine selected by CONVERSION_ENGINE
+ */
+function selectEngine(): ConversionEngine {
+  switch (CONVERSION_ENGINE) {
+    case 'soffice':
+      return sofficeEngine;
+    case 'gotenberg':
+      return gotenbergEngine;
+    default:
+      logger.warn(`Unknown CONVERSION_ENGINE ${CONVERSION_ENGINE}; using gotenberg`);
+      return gotenbergEngine;
+  }
+}
 
 class ConversionService {
+  private readonly engine = selectEngine();
+
   /**
-   * Check if Gotenberg is healthy
+   * Name of the conversion engine in use
+   */
+  get engineName(): ConversionEngineName {
+    return this.engine.name;
+  }
+
+  /**
+   * Check if the conversion engine is healthy
    */
   async checkHealth(): Promise<boolean> {
-    try {
-      const response = await axios.get(`${GOTENBERG_URL}/health`, {
-        timeout: 5000
-      });
-      return response.status === 200;
-    } catch (error) {
-      console.error('Gotenberg health check failed:', (error as Error).message);
-      return false;
-    }
+    return await this.engine.checkHealth();
   }
 
   /**
-   * Convert a document to PDF using Gotenberg
+   * Convert a document to PDF along the conversion route of its input format
+   * Images are wrapped into a PDF locally; everything else goes to the
+   * conversion engine, whose output is passed on as it arrives instead of
+   * being buffered.
    * @param filePath - Path to the input file
    * @param originalName - Original filename
+   * @param options - Conversion options supported by the route
+   * @param password - Password of a password-protected document
+   * @returns PDF stream, which the caller must consume or destroy
+   * @throws DocumentPasswordError if the document is password-protected and the password is missing or wrong
+   */
+  async convertToPDFStream(
+    filePath: string,
+    originalName: string,
+    options: ConversionOptions = {},
+    password?: string
+  ): Promise<PdfStream> {
+    const { route } = getInputFormat(originalName);
+    if (route === 'image') {
+      const data = await this.convertImage(filePath, originalName);
+      return { stream: Readable.from([data]), size: data.length };
+    }
+    return await this.engine.convertToPDF(route, { filePath, originalName }, options, password);
+  }
+
+  /**
+   * Convert a document to a PDF file, streaming the result to disk
+   * @param outputPath - Path to write the PDF to
+   * @returns Size of the PDF in bytes
+   * @throws DocumentPasswordError if the document is password-protected and the password is missing or wrong
+   */
+  async convertToPDFFile(
+    filePath: string,
+    originalName: string,
+    outputPath: string,
+    options: ConversionOptions = {},
+    password?: string
+  ): Promise<number> {
+    return await this.writePdf(await this.convertToPDFStream(filePath, originalName, options, password), outputPath);
+  }
+
+  /**
+   * Convert a document to PDF in memory
+   * Only for callers that need the whole document anyway, e.g. to merge or
+   * inspect it; prefer convertToPDFStream or convertToPDFFile.
+   * @returns PDF buffer
+   * @throws DocumentPasswordError if the document is password-protected and the password is missing or wrong
+   */
+  async convertToPDF(
+    filePath: string,
+    originalName: string,
+    options: ConversionOptions = {},
+    password?: string
+  ): Promise<Buffer> {
+    return await this.readPdf(await this.convertToPDFStream(filePath, originalName, options, password));
+  }
+
+  /**
+   * Convert several documents into a single PDF, in the given order
+   * Office documents without bookmarks are converted and merged by the
+   * conversion engine in one go. Otherwise each document is converted separately, so the first
+   * page of every source is known, then the parts are merged locally.
+   * @param files - Input files in merge order
+   * @param options - Conversion options, applied to every file
+   * @param bookmarks - Add a bookmark named after each source file
+   * @param password - Password of the password-protected documents
    * @returns PDF buffer
    */
-  async convertToPDF(filePath: string, originalName: string): Promise<Buffer> {
+  async mergeToPDF(
+    files: { filePath: string; originalName: string }[],
+    options: ConversionOptions = {},
+    bookmarks = false,
+    password?: string
+  ): Promise<Buffer> {
+    if (this.isEngineMerge(files, bookmarks)) {
+      return await this.readPdf(await this.engine.mergeToPDF(files, options, password));
+    }
+
+    const parts: PdfPart[] = [];
+    for (const file of files) {
+      const data = await this.convertToPDF(file.filePath, file.originalName, options, password);
+      parts.push({ title: path.basename(file.originalName, path.extname(file.originalName)), data });
+    }
+
     try {
-      const form = new FormData();
-      form.append('files', fs.createReadStream(filePath), originalName);
-
-      const response = await axios.post(
-        `${GOTENBERG_URL}/forms/libreoffice/convert`,
-        form,
-        {
-          headers: form.getHeaders(),
-          responseType: 'arraybuffer',
-          timeout: 300000, // 5 minutes
-          maxBodyLength: Infinity,
-          maxContentLength: Infinity
-        }
-      );
+      return await mergePdfs(parts, bookmarks);
+    } catch (error) {
+      logger.error({ err: error }, 'Error merging PDFs');
+      throw new Error(`PDF merge failed: ${(error as Error).message}`);
+    }
+  }
 
-      if (response.status === 200) {
-        return Buffer.from(response.data);
-      } else {
-        throw new Error(`Gotenberg returned status ${response.status}`);
-      }
+  /**
+   * Merge several documents into a PDF file
+   * Merges done by the conversion engine are streamed to disk; merges with
+   * bookmarks or non-office documents are assembled in memory by mergeToPDF.
+   * @param outputPath - Path to write the PDF to
+   * @returns Size of the PDF in bytes
+   */
+  async mergeToPDFFile(
+    files: { filePath: string; originalName: string }[],
+    outputPath: string,
+    options: ConversionOptions = {},
+    bookmarks = false,
+    password?: string
+  ): Promise<number> {
+    if (this.isEngineMerge(files, bookmarks)) {
+      return await this.writePdf(await this.engine.mergeToPDF(files, options, password), outputPath);
+    }
+
+    const data = await this.mergeToPDF(files, options, bookmarks, password);
+    await fs.promises.writeFile(outputPath, data);
+    return data.length;
+  }
+
+  /**
+   * Draw a watermark and header/footer stamps on every page of a PDF
+   * @param pdfBuffer - PDF to stamp
+   * @param stamps - Watermark and stamp texts
+   * @returns Stamped PDF buffer
+   */
+  async stampPDF(pdfBuffer: Buffer, stamps: PdfStamps): Promise<Buffer> {
+    try {
+      return await stampPdf(pdfBuffer, stamps);
     } catch (error) {
-      console.error('Error converting to PDF:', (error as Error).message);
-      if (axios.isAxiosError(error) && error.response) {
-        console.error('Response status:', error.response.status);
-        console.error('Response data:', error.response.data?.toString());
-      }
-      throw new Error(`PDF conversion failed: ${(error as Error).message}`);
+      logger.error({ err: error }, 'Error stamping PDF');
+      throw new Error(`PDF stamping failed: ${(error as Error).message}`);
     }
   }
 
   /**
-   * Convert PDF to PNG images using pdftoppm
+   * Encrypt a PDF in place with qpdf (AES-256)
+   * The arguments are read from a private file so the passwords never show
+   * up in the process list.
+   * @param pdfPath - PDF to encrypt
+   * @param encryption - Passwords and the permissions left to users
+   */
+  async encryptPDF(pdfPath: string, encryption: PdfEncryption): Promise<void> {
+    const argsPath = `${pdfPath}.qpdf-args`;
+    const allow = (permission: PdfPermission): string => (encryption.permissions.includes(permission) ? 'y' : 'n');
+
+    try {
+      const args = [
+        '--warning-exit-0',
+        '--encrypt',
+        encryption.userPassword ?? '',
+        encryption.ownerPassword,
+        '256',
+        `--print=${encryption.permissions.includes('print') ? 'full' : 'none'}`,
+        `--modify-other=${allow('modify')}`,
+        `--extract=${allow('copy')}`,
+        `--annotate=${allow('annotate')}`,
+        `--form=${allow('form')}`,
+        `--assemble=${allow('assemble')}`,
+        '--',
+        pdfPath,
+        '--replace-input'
+      ];
+      await fs.promises.writeFile(argsPath, args.join('\n') + '\n', { mode: 0o600 });
+      await execFileAsync('qpdf', [`@${argsPath}`], { timeout: QPDF_TIMEOUT_MS });
+    } catch (error) {
+      logger.error({ err: error }, 'Error encrypting PDF');
+      throw new Error(`PDF encryption failed: ${(error as Error).message}`);
+    } finally {
+      await fs.promises.rm(argsPath, { force: true });
+    }
+  }
+
+  /**
+   * Content type of an output format
+   */
+  getContentType(format: OutputFormat): string {
+    return OUTPUT_TYPES[format].contentType;
+  }
+
+  /**
+   * File extension of an output format, including the dot
+   */
+  getExtension(format: OutputFormat): string {
+    return OUTPUT_TYPES[format].extension;
+  }
+
+  /**
+   * Convert PDF to images, rendering each page with the conversion engine
+   * PNG, JPEG and WebP produce one image per page; TIFF produces a single
+   * multi-page file.
    * @param pdfPath - Path to the PDF file
    * @param outputPrefix - Output filename prefix
-   * @param dpi - DPI for PNG output
-   * @returns Array of PNG file paths
+   * @param format - Output format
+   * @param dpi - DPI for the output, used when no size is given
+   * @param size - Fixed width and/or height in pixels; with both, each page is scaled to fit the box
+   * @param imageOptions - JPEG/WebP quality or TIFF compression
+   * @param sourcePages - Page ranges the PDF was cut from, so images are named after the source pages
+   * @returns Array of image file paths, in page order
    */
-  async convertPDFtoPNG(pdfPath: string, outputPrefix: string, dpi: number = PNG_DPI): Promise<string[]> {
+  async convertPDFtoImages(
+    pdfPath: string,
+    outputPrefix: string,
+    format: RasterFormat = 'png',
+    dpi: number = PNG_DPI,
+    size: ImageSize = {},
+    imageOptions: ImageOptions = {},
+    sourcePages?: string
+  ): Promise<string[]> {
     try {
       const outputDir = path.dirname(pdfPath);
       const outputBasename = path.basename(outputPrefix, path.extname(outputPrefix));
-      const outputPath = path.join(outputDir, outputBasename);
-
-      // Use pdftoppm to convert PDF to PNG
-      const command = `pdftoppm -png -r ${dpi} "${pdfPath}" "${outputPath}"`;
-      
-      console.log(`Executing: ${command}`);
-      const { stderr } = await execAsync(command);
-      
-      if (stderr) {
-        console.warn('pdftoppm stderr:', stderr);
+
+      const pageSizes = await this.getPdfPageSizes(pdfPath);
+      if (pageSizes.length === 0) {
+        throw new Error('PDF has no pages');
       }
+      const pageNumbers = sourcePages
+        ? expandPageRanges(sourcePages, pageSizes.length)
+        : pageSizes.map((_, i) => i + 1);
+      const digits = String(pageNumbers[pageNumbers.length - 1]).length;
 
-      // Find all generated PNG files
-      const files = await fs.promises.readdir(outputDir);
-      const pngFiles = files
-        .filter(f => f.startsWith(outputBasename) && f.endsWith('.png'))
-        .map(f => path.join(outputDir, f))
-        .sort();
+      const startedAt = Date.now();
+      // Like the output size, the time limit covers the whole conversion rather than each page
+      const deadline = startedAt + PDFTOPPM_TIMEOUT_MS;
+      const pageFiles: string[] = [];
+      let outputBytes = 0;
+      for (const [index, pageSize] of pageSizes.entries()) {
+        const outputPath = path.join(outputDir, `${outputBasename}-${String(pageNumbers[index]).padStart(digits, '0')}`);
+        const page = index + 1;
+        const timeLeft = deadline - Date.now();
+        if (timeLeft <= 0) {
+          throw new Error('Rendering the images exceeded the time limit');
+        }
 
-      if (pngFiles.length === 0) {
-        throw new Error('No PNG files were generated');
+        // WebP is rendered as PNG and encoded afterwards
+        const pageFile = await this.engine.rasterize(
+          pdfPath,
+          page,
+          outputPath,
+          format === 'webp' ? 'png' : format,
+          {
+            quality: imageOptions.quality ?? IMAGE_QUALITY,
+            compression: imageOptions.compression ?? TIFF_COMPRESSION
+          },
+          this.pageScale(dpi, size, pageSize),
+          PDFTOPPM_MAX_OUTPUT_BYTES - outputBytes,
+          timeLeft
+        );
+        pageFiles.push(pageFile);
+        // The limit covers the whole conversion, so a long document cannot fill the disk page by page
+        outputBytes += (await fs.promises.stat(pageFile)).size;
       }
 
-      console.log(`Generated ${pngFiles.length} PNG files`);
-      return pngFiles;
+      metricsService.observePdftoppm((Date.now() - startedAt) / 1000, pageFiles.length);
+
+      let imageFiles = pageFiles;
+      if (format === 'webp') {
+        imageFiles = await this.encodeWebP(pageFiles, imageOptions.quality ?? IMAGE_QUALITY);
+      } else if (format === 'tiff') {
+        imageFiles = [await this.combineTiff(pageFiles, path.join(outputDir, `${outputBasename}.tif`))];
+      }
+
+      logger.info(`Generated ${imageFiles.length} ${format.toUpperCase()} files from ${pageFiles.length} pages`);
+      return imageFiles;
     } catch (error) {
-      console.error('Error converting PDF to PNG:', error);
-      throw new Error(`PNG conversion failed: ${(error as Error).message}`);
+      logger.error({ err: error }, `Error converting PDF to ${format.toUpperCase()}`);
+      throw new Error(`${format.toUpperCase()} conversion failed: ${(error as Error).message}`);
     }
   }
 
   /**
-   * Convert document directly to PNG (via PDF intermediate)
+   * Extract the text of a PDF using pdftotext
+   * `text` writes plain UTF-8 with pages separated by form feeds; `json` writes
+   * an array of pages with their dimensions and text blocks.
+   * @param pdfPath - Path to the PDF file
+   * @param format - Output format
+   * @param outputPath - Path to write the result to
+   * @param sourcePages - Page ranges the PDF was cut from, so pages are numbered after the source
+   * @returns Path of the result
+   */
+  async extractText(pdfPath: string, format: TextFormat, outputPath: string, sourcePages?: string): Promise<string> {
+    try {
+      if (format === 'text') {
+        await execFileAsync('pdftotext', ['-enc', 'UTF-8', pdfPath, outputPath], { timeout: PDFTOTEXT_TIMEOUT_MS });
+        return outputPath;
+      }
+
+      const layoutPath = `${outputPath}.html`;
+      try {
+        await execFileAsync('pdftotext', ['-enc', 'UTF-8', '-bbox-layout', pdfPath, layoutPath], {
+          timeout: PDFTOTEXT_TIMEOUT_MS
+        });
+        const layout = await fs.promises.readFile(layoutPath, 'utf8');
+        const pageCount = layout.match(/<page /g)?.length ?? 0;
+        const pageNumbers = sourcePages ? expandPageRanges(sourcePages, pageCount) : undefined;
+        await fs.promises.writeFile(outputPath, JSON.stringify(parseBboxLayout(layout, pageNumbers)));
+      } finally {
+        await fs.promises.rm(layoutPath, { force: true });
+      }
+      return outputPath;
+    } catch (error) {
+      logger.error({ err: error }, 'Error extracting text');
+      throw new Error(`Text extraction failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Convert document directly to images (via PDF intermediate)
+   * Selected pages are passed on to LibreOffice, so only those pages are
+   * converted to PDF in the first place.
    * @param filePath - Path to the input file
    * @param originalName - Original filename
-   * @param dpi - DPI for PNG output
-   * @returns Array of PNG file paths
+   * @param format - Output format
+   * @param dpi - DPI for the output
+   * @param options - LibreOffice conversion options for the PDF step
+   * @param render - Page selection and sizing
+   * @param imageOptions - JPEG/WebP quality or TIFF compression
+   * @param textOutputPath - Also extract plain text to this path
+   * @param password - Password of a password-protected document
+   * @param stamps - Watermark and header/footer stamps drawn on the pages before rendering
+   * @returns Paths of the images, written next to the input file, and the page count and size of the intermediate PDF
    */
-  async convertToPNG(filePath: string, originalName: string, dpi: number = PNG_DPI): Promise<string[]> {
-    let pdfPath: string | null = null;
-    
+  async convertToImages(
+    filePath: string,
+    originalName: string,
+    format: RasterFormat = 'png',
+    dpi: number = PNG_DPI,
+    options: ConversionOptions = {},
+    render: RenderOptions = {},
+    imageOptions: ImageOptions = {},
+    textOutputPath?: string,
+    password?: string,
+    stamps?: PdfStamps
+  ): Promise<ImageConversionResult> {
+    let workDir: string | null = null;
+    const pages = render.thumbnail ? '1' : render.pages;
+    const size: ImageSize = render.thumbnail
+      ? { width: render.width ?? THUMBNAIL_SIZE, height: render.height ?? THUMBNAIL_SIZE }
+      : { width: render.width, height: render.height };
+
     try {
+      // The intermediate PDF and the pages are rendered in a private directory,
+      // so concurrent conversions of identically named documents cannot collide
+      workDir = await fs.promises.mkdtemp(path.join(path.dirname(filePath), 'render-'));
+
       // First convert to PDF
-      console.log(`Converting ${originalName} to PDF...`);
-      const pdfBuffer = await this.convertToPDF(filePath, originalName);
-      
-      // Save PDF temporarily
-      const pdfFilename = path.basename(originalName, path.extname(originalName)) + '.pdf';
-      pdfPath = path.join(path.dirname(filePath), pdfFilename);
-      await fs.promises.writeFile(pdfPath, pdfBuffer);
-      
-      // Convert PDF to PNG
-      console.log(`Converting PDF to PNG at ${dpi} DPI...`);
+      logger.info(`Converting ${originalName} to PDF...`);
+      const pdfOptions = pages ? { ...options, pageRanges: pages } : options;
+      const pdfPath = path.join(workDir, 'document.pdf');
+      await this.convertToPDFFile(filePath, originalName, pdfPath, pdfOptions, password);
+      if (stamps) {
+        // pdf-lib stamps the document in memory
+        await fs.promises.writeFile(pdfPath, await this.stampPDF(await fs.promises.readFile(pdfPath), stamps));
+      }
+      const pdfSize = (await fs.promises.stat(pdfPath)).size;
+
+      // Convert PDF to images
+      const scaling = size.width || size.height ? `${size.width ?? 'auto'}x${size.height ?? 'auto'}px` : `${dpi} DPI`;
+      logger.info(`Converting PDF to ${format.toUpperCase()} at ${scaling}...`);
       const outputPrefix = path.basename(originalName, path.extname(originalName));
-      const pngFiles = await this.convertPDFtoPNG(pdfPath, outputPrefix, dpi);
-      
-      return pngFiles;
+      const imageFiles = await this.convertPDFtoImages(pdfPath, outputPrefix, format, dpi, size, imageOptions, pages);
+
+      if (textOutputPath) {
+        await this.extractText(pdfPath, 'text', textOutputPath, pages);
+      }
+      const pdfPageCount = await this.getPdfPageCount(pdfPath);
+
+      // Hand the finished images over next to the input file
+      const files: string[] = [];
+      for (const imageFile of imageFiles) {
+        const target = path.join(path.dirname(filePath), path.basename(imageFile));
+        await fs.promises.rename(imageFile, target);
+        files.push(target);
+      }
+      return { files, pdfPageCount, pdfSize };
     } catch (error) {
-      console.error('Error in convertToPNG:', error);
+      logger.error({ err: error }, 'Error in convertToImages');
       throw error;
     } finally {
-      // Cleanup temporary PDF
-      if (pdfPath) {
+      if (workDir) {
         try {
-          await fs.promises.unlink(pdfPath);
+          await fs.promises.rm(workDir, { recursive: true, force: true });
         } catch (err) {
-          console.error('Error deleting temp PDF:', err);
+          logger.error({ err }, `Error deleting render directory ${workDir}`);
         }
       }
     }
   }
+
+  /**
+   * Wrap a PNG or JPEG image into a single-page PDF
+   */
+  private async convertImage(filePath: string, originalName: string): Promise<Buffer> {
+    try {
+      return await imageToPdf(await fs.promises.readFile(filePath));
+    } catch (error) {
+      logger.error({ err: error }, `Error converting image ${originalName} to PDF`);
+      throw new Error(`PDF conversion failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Whether a merge is left to the conversion engine in one go: office
+   * documents without bookmarks
+   */
+  private isEngineMerge(files: { originalName: string }[], bookmarks: boolean): boolean {
+    return !bookmarks && files.every(file => getInputFormat(file.originalName).route === 'libreoffice');
+  }
+
+  /**
+   * Write a PDF stream to disk
+   * @returns Size of the PDF in bytes
+   */
+  private async writePdf(pdf: PdfStream, outputPath: string): Promise<number> {
+    try {
+      await pipeline(pdf.stream, fs.createWriteStream(outputPath));
+    } catch (error) {
+      logger.error({ err: error }, 'Error receiving converted PDF');
+      throw new Error(`PDF conversion failed: ${(error as Error).message}`);
+    }
+    return (await fs.promises.stat(outputPath)).size;
+  }
+
+  /**
+   * Collect a PDF stream into memory
+   */
+  private async readPdf(pdf: PdfStream): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    try {
+      for await (const chunk of pdf.stream) {
+        chunks.push(chunk as Buffer);
+      }
+    } catch (error) {
+      logger.error({ err: error }, 'Error receiving converted PDF');
+      throw new Error(`PDF conversion failed: ${(error as Error).message}`);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Page count of a PDF file, read with pdfinfo without loading the document
+   */
+  async getPdfPageCount(pdfPath: string): Promise<number> {
+    const { stdout } = await execFileAsync('pdfinfo', [pdfPath], { timeout: PDFINFO_TIMEOUT_MS });
+    const match = /^Pages:\s+(\d+)/m.exec(stdout);
+    if (!match) {
+      throw new Error('pdfinfo did not report a page count');
+    }
+    return parseInt(match[1], 10);
+  }
+
+  /**
+   * Page sizes of a PDF file in points, read with pdfinfo; rotated pages are reported as displayed
+   */
+  private async getPdfPageSizes(pdfPath: string): Promise<PageSize[]> {
+    const pageCount = await this.getPdfPageCount(pdfPath);
+    if (pageCount === 0) {
+      return [];
+    }
+
+    const { stdout } = await execFileAsync('pdfinfo', ['-f', '1', '-l', String(pageCount), pdfPath], {
+      timeout: PDFINFO_TIMEOUT_MS,
+      maxBuffer: 16 * 1024 * 1024
+    });
+    const sizes: PageSize[] = [];
+    for (const [, page, width, height] of stdout.matchAll(/^Page\s+(\d+)\s+size:\s+([\d.]+)\s+x\s+([\d.]+)/gm)) {
+      sizes[parseInt(page, 10) - 1] = { width: parseFloat(width), height: parseFloat(height) };
+    }
+    for (const [, page, rotation] of stdout.matchAll(/^Page\s+(\d+)\s+rot:\s+(\d+)/gm)) {
+      const size = sizes[parseInt(page, 10) - 1];
+      if (size && parseInt(rotation, 10) % 180 !== 0) {
+        sizes[parseInt(page, 10) - 1] = { width: size.height, height: size.width };
+      }
+    }
+    if (sizes.length !== pageCount || Array.from(sizes).some(size => !size)) {
+      throw new Error('pdfinfo did not report every page size');
+    }
+    return sizes;
+  }
+
+  /**
+   * Encode rendered PNG pages as WebP with cwebp, replacing the PNGs
+   * @returns Paths of the WebP files
+   */
+  private async encodeWebP(pngFiles: string[], quality: number): Promise<string[]> {
+    const webpFiles: string[] = [];
+    for (const pngFile of pngFiles) {
+      const webpFile = pngFile.replace(/\.png$/, OUTPUT_TYPES.webp.extension);
+      await execFileAsync('cwebp', ['-quiet', '-q', String(quality), pngFile, '-o', webpFile], {
+        timeout: IMAGE_TOOL_TIMEOUT_MS
+      });
+      await fs.promises.unlink(pngFile);
+      webpFiles.push(webpFile);
+    }
+    return webpFiles;
+  }
+
+  /**
+   * Combine single-page TIFFs into one multi-page TIFF with tiffcp, replacing the pages
+   * @returns Path of the combined TIFF
+   */
+  private async combineTiff(pageFiles: string[], outputPath: string): Promise<string> {
+    if (pageFiles.length === 1) {
+      await fs.promises.rename(pageFiles[0], outputPath);
+      return outputPath;
+    }
+
+    await execFileAsync('tiffcp', [...pageFiles, outputPath], { timeout: IMAGE_TOOL_TIMEOUT_MS });
+    for (const pageFile of pageFiles) {
+      await fs.promises.unlink(pageFile);
+    }
+    return outputPath;
+  }
+
+  /**
+   * Target resolution of one rendered page
+   * @param pageSize - Page size in points, needed to fit a box while keeping the aspect ratio
+   */
+  private pageScale(dpi: number, size: ImageSize, pageSize: PageSize): RasterScale {
+    const { width, height } = size;
+    if (width && height) {
+      const scale = Math.min(width / pageSize.width, height / pageSize.height);
+      return {
+        width: Math.max(1, Math.round(pageSize.width * scale)),
+        height: Math.max(1, Math.round(pageSize.height * scale))
+      };
+    }
+    if (width || height) {
+      return { width, height };
+    }
+    return { dpi };
+  }
 }
 
 export default new ConversionService();
@@ -0,0 +1,306 @@
+import axios from 'axios';
+import FormData from 'form-data';
+import fs from 'fs';
+import { Readable } from 'stream';
+import gotenbergPoolService from './gotenbergPoolService';
+import metricsService from './metricsService';
+import {
+  ConversionEngine,
+  ConversionOptions,
+  ConversionRoute,
+  EngineInput,
+  ImageOptions,
+  PdfStream,
+  RasterFormat,
+  RasterScale
+} from '../types';
+import { toGotenbergFields } from '../utils/conversionOptions';
+import { InvalidPasswordError, PasswordRequiredError } from '../utils/errors';
+import logger from '../utils/logger';
+import { findPasswordProtected } from '../utils/officeEncryption';
+import { renderPage } from '../utils/pdftoppm';
+
+const GOTENBERG_TIMEOUT_MS = parseInt(process.env.GOTENBERG_TIMEOUT_MS || '300000', 10);
+// Instances a request is tried on before it fails
+const GOTENBERG_MAX_ATTEMPTS = Math.max(1, parseInt(process.env.GOTENBERG_MAX_ATTEMPTS || '2', 10));
+// Longest Gotenberg error body kept for the logs
+const ERROR_BODY_MAX_CHARS = 2048;
+
+const LIBREOFFICE_ROUTE = '/forms/libreoffice/convert';
+const CHROMIUM_HTML_ROUTE = '/forms/chromium/convert/html';
+const CHROMIUM_MARKDOWN_ROUTE = '/forms/chromium/convert/markdown';
+
+const MARKDOWN_UPLOAD_NAME = 'document.md';
+const MARKDOWN_PAGE = `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <style>
+      body { font-family: sans-serif; line-height: 1.5; margin: 0 2em; }
+      pre, code { font-family: monospace; }
+      table { border-collapse: collapse; }
+      th, td { border: 1px solid #ccc; padding: 0.25em 0.5em; }
+    </style>
+  </head>
+  <body>{{ toHTML "${MARKDOWN_UPLOAD_NAME}" }}</body>
+</html>
+`;
+
+/**
+ * Conversion engine backed by the Gotenberg instance pool: LibreOffice for
+ * office documents, Chromium for HTML and Markdown. Pages are rendered
+ * locally with pdftoppm.
+ */
+class GotenbergEngine implements ConversionEngine {
+  readonly name = 'gotenberg';
+
+  /**
+   * Convert a document with Gotenberg's LibreOffice or Chromium route
+   * Gotenberg's response is passed on as it arrives instead of being buffered.
+   * @returns PDF stream, which the caller must consume or destroy
+   */
+  async convertToPDF(
+    route: Exclude<ConversionRoute, 'image'>,
+    file: EngineInput,
+    options: ConversionOptions,
+    password?: string
+  ): Promise<PdfStream> {
+    switch (route) {
+      case 'chromium-html':
+        return await this.convertWithGotenberg(
+          CHROMIUM_HTML_ROUTE,
+          [{ ...file, uploadName: 'index.html' }],
+          toGotenbergFields(options)
+        );
+      case 'chromium-markdown':
+        return await this.convertMarkdown(file.filePath, file.originalName, options);
+      default:
+        return await this.convertWithGotenberg(LIBREOFFICE_ROUTE, [file], toGotenbergFields(options), password);
+    }
+  }
+
+  /**
+   * Convert and merge LibreOffice documents in one Gotenberg request
+   */
+  async mergeToPDF(files: EngineInput[], options: ConversionOptions, password?: string): Promise<PdfStream> {
+    // Gotenberg merges in alphanumeric filename order, so prefix the position
+    const ordered = files.map((file, i) => ({
+      ...file,
+      uploadName: `${String(i + 1).padStart(4, '0')}_${file.originalName}`
+    }));
+    return await this.convertWithGotenberg(
+      LIBREOFFICE_ROUTE,
+      ordered,
+      { ...toGotenbergFields(options), merge: 'true' },
+      password
+    );
+  }
+
+  /**
+   * Render one PDF page with pdftoppm
+   */
+  async rasterize(
+    pdfPath: string,
+    page: number,
+    outputPath: string,
+    format: Exclude<RasterFormat, 'webp'>,
+    imageOptions: ImageOptions,
+    scale: RasterScale,
+    maxBytes: number,
+    timeoutMs: number
+  ): Promise<string> {
+    return await renderPage(pdfPath, page, outputPath, format, imageOptions, scale, maxBytes, timeoutMs);
+  }
+
+  /**
+   * Check if Gotenberg is healthy; at least one pool instance must answer
+   */
+  async checkHealth(): Promise<boolean> {
+    return await gotenbergPoolService.checkHealth();
+  }
+
+  /**
+   * Render a Markdown file with Gotenberg's Chromium route
+   * Chromium converts an HTML page, so a minimal page embedding the Markdown
+   * is uploaded alongside it.
+   */
+  private async convertMarkdown(filePath: string, originalName: string, options: ConversionOptions): Promise<PdfStream> {
+    const indexPath = `${filePath}.index.html`;
+    try {
+      await fs.promises.writeFile(indexPath, MARKDOWN_PAGE);
+      return await this.convertWithGotenberg(
+        CHROMIUM_MARKDOWN_ROUTE,
+        [
+          { filePath: indexPath, originalName: 'index.html' },
+          { filePath, originalName, uploadName: MARKDOWN_UPLOAD_NAME }
+        ],
+        toGotenbergFields(options)
+      );
+    } finally {
+      // Gotenberg has received the whole upload once it starts responding
+      await fs.promises.rm(indexPath, { force: true });
+    }
+  }
+
+  /**
+   * Post documents to a Gotenberg conversion route. Requests an instance
+   * fails (5xx, timeout, connection error) are retried on another instance,
+   * up to GOTENBERG_MAX_ATTEMPTS instances in total.
+   * @param route - Route path, e.g. LIBREOFFICE_ROUTE
+   * @param files - Input files, uploaded under their upload or else original names
+   * @param fields - Additional form fields
+   * @param password - Password LibreOffice opens the documents with
+   * @returns PDF stream of the response body
+   */
+  private async convertWithGotenberg(
+    route: string,
+    files: { filePath: string; originalName: string; uploadName?: string }[],
+    fields: Record<string, string>,
+    password?: string
+  ): Promise<PdfStream> {
+    const tried: string[] = [];
+    let lastError: Error | undefined;
+    for (;;) {
+      let instance: string;
+      try {
+        instance = gotenbergPoolService.acquire(tried);
+      } catch (error) {
+        if (lastError) {
+          throw new Error(`PDF conversion failed: ${lastError.message}`);
+        }
+        throw error;
+      }
+      tried.push(instance);
+
+      try {
+        return await this.postToGotenberg(instance, route, files, fields, password);
+      } catch (error) {
+        if (!this.isInstanceFailure(error)) {
+          throw error;
+        }
+        lastError = error as Error;
+        if (tried.length >= GOTENBERG_MAX_ATTEMPTS) {
+          throw new Error(`PDF conversion failed: ${lastError.message}`);
+        }
+        logger.warn({ err: error, instance }, 'Retrying conversion on another Gotenberg instance');
+      }
+    }
+  }
+
+  /**
+   * Post documents to one Gotenberg instance acquired from the pool. The
+   * instance is released once the response body has been consumed.
+   */
+  private async postToGotenberg(
+    instance: string,
+    route: string,
+    files: { filePath: string; originalName: string; uploadName?: string }[],
+    fields: Record<string, string>,
+    password?: string
+  ): Promise<PdfStream> {
+    const startedAt = Date.now();
+    try {
+      const form = new FormData();
+      for (const file of files) {
+        form.append('files', fs.createReadStream(file.filePath), file.uploadName ?? file.originalName);
+      }
+      for (const [field, value] of Object.entries(fields)) {
+        form.append(field, value);
+      }
+      if (password) {
+        form.append('password', password);
+      }
+
+      const response = await axios.post(
+        `${instance}${route}`,
+        form,
+        {
+          headers: form.getHeaders(),
+          responseType: 'stream',
+          timeout: GOTENBERG_TIMEOUT_MS,
+          maxBodyLength: Infinity,
+          maxContentLength: Infinity
+        }
+      );
+
+      metricsService.observeGotenbergRequest(String(response.status), (Date.now() - startedAt) / 1000, response.status !== 200);
+
+      const stream = response.data as Readable;
+      if (response.status !== 200) {
+        stream.destroy();
+        throw new Error(`Gotenberg returned status ${response.status}`);
+      }
+
+      // The instance stays busy until the PDF has been received
+      let streamError: Error | undefined;
+      stream.once('error', (err) => {
+        streamError = err;
+      });
+      stream.once('close', () => {
+        gotenbergPoolService.release(instance, streamError);
+      });
+
+      const size = parseInt(String(response.headers['content-length'] ?? ''), 10);
+      return { stream, size: Number.isNaN(size) ? undefined : size };
+    } catch (error) {
+      gotenbergPoolService.release(instance, this.isInstanceFailure(error) ? (error as Error) : undefined);
+      logger.error({ err: error, instance }, 'Error converting to PDF');
+      if (axios.isAxiosError(error)) {
+        const code = error.response ? String(error.response.status) : (error.code ?? 'unknown');
+        metricsService.observeGotenbergRequest(code, (Date.now() - startedAt) / 1000, true);
+      }
+      if (axios.isAxiosError(error) && error.response) {
+        logger.error(
+          { status: error.response.status, body: await this.readErrorBody(error.response.data) },
+          'Gotenberg error response'
+        );
+        // LibreOffice cannot tell a missing from a wrong password, so check the documents
+        const locked = await findPasswordProtected(files);
+        if (locked) {
+          throw password ? new InvalidPasswordError(locked) : new PasswordRequiredError(locked);
+        }
+      }
+      if (this.isInstanceFailure(error)) {
+        // Left to convertWithGotenberg, which may fail over to another instance
+        throw error;
+      }
+      throw new Error(`PDF conversion failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Whether an error reflects on the Gotenberg instance rather than the
+   * request: a 5xx response, a timeout or a connection failure
+   */
+  private isInstanceFailure(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) {
+      return false;
+    }
+    return error.response ? error.response.status >= 500 : true;
+  }
+
+  /**
+   * Read the start of a Gotenberg error body for the logs, discarding the rest
+   */
+  private async readErrorBody(data: unknown): Promise<string | undefined> {
+    if (!(data instanceof Readable)) {
+      return data === undefined || data === null ? undefined : String(data);
+    }
+    let body = '';
+    try {
+      for await (const chunk of data) {
+        body += String(chunk);
+        if (body.length >= ERROR_BODY_MAX_CHARS) {
+          break;
+        }
+      }
+    } catch {
+      // The body is informational only
+    } finally {
+      data.destroy();
+    }
+    return body.slice(0, ERROR_BODY_MAX_CHARS);
+  }
+}
+
+export default new GotenbergEngine();
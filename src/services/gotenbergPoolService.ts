@@ -0,0 +1,183 @@
+import axios from 'axios';
+import metricsService from './metricsService';
+import { GotenbergBalancing, GotenbergInstanceStats } from '../types';
+import { GotenbergUnavailableError } from '../utils/errors';
+import logger from '../utils/logger';
+
+const GOTENBERG_URLS = process.env.GOTENBERG_URLS || process.env.GOTENBERG_URL || 'http://gotenberg:3000';
+const GOTENBERG_BALANCING: GotenbergBalancing =
+  process.env.GOTENBERG_BALANCING === 'round-robin' ? 'round-robin' : 'least-outstanding';
+const GOTENBERG_FAILURE_THRESHOLD = parseInt(process.env.GOTENBERG_FAILURE_THRESHOLD || '3', 10);
+const GOTENBERG_PROBE_INTERVAL_MS = parseInt(process.env.GOTENBERG_PROBE_INTERVAL_MS || '10000', 10);
+const GOTENBERG_PROBE_TIMEOUT_MS = 5000;
+
+type GotenbergInstance = GotenbergInstanceStats;
+
+/**
+ * The Gotenberg instances conversions are spread across. Requests go to the
+ * instance with the fewest in flight, or to each in turn; an instance that
+ * fails GOTENBERG_FAILURE_THRESHOLD requests in a row (5xx responses, timeouts,
+ * connection errors) is taken out of rotation until its health endpoint
+ * answers again.
+ */
+class GotenbergPoolService {
+  private readonly instances: GotenbergInstance[] = GOTENBERG_URLS.split(',')
+    .map((url) => url.trim().replace(/\/+$/, ''))
+    .filter((url, index, urls) => url && urls.indexOf(url) === index)
+    .map((url): GotenbergInstance => ({
+      url,
+      circuit: 'closed',
+      outstanding: 0,
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0
+    }));
+
+  private nextIndex = 0;
+  private probeTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Pick an instance for a request and count it as outstanding until released
+   * @param exclude - Instances already tried for this request
+   * @returns Base URL of the instance
+   * @throws GotenbergUnavailableError if every remaining instance is out of rotation
+   */
+  acquire(exclude: string[] = []): string {
+    let chosen: number | null = null;
+    for (let offset = 0; offset < this.instances.length; offset++) {
+      const index = (this.nextIndex + offset) % this.instances.length;
+      const instance = this.instances[index];
+      if (instance.circuit === 'open' || exclude.includes(instance.url)) {
+        continue;
+      }
+      if (chosen === null || instance.outstanding < this.instances[chosen].outstanding) {
+        chosen = index;
+      }
+      if (GOTENBERG_BALANCING === 'round-robin') {
+        break;
+      }
+    }
+
+    if (chosen === null) {
+      throw new GotenbergUnavailableError(
+        exclude.length ? 'No other Gotenberg instance is available' : 'No Gotenberg instance is available'
+      );
+    }
+
+    // Start the next search after the chosen instance so ties rotate too
+    this.nextIndex = (chosen + 1) % this.instances.length;
+    const instance = this.instances[chosen];
+    instance.outstanding++;
+    instance.requests++;
+    this.publish(instance);
+    return instance.url;
+  }
+
+  /**
+   * Finish a request taken with acquire
+   * @param url - Instance the request went to
+   * @param failure - Error that counts against the instance: a 5xx response, a
+   *   timeout or a connection failure. Omit it when the instance did its job,
+   *   including when it rejected the document.
+   */
+  release(url: string, failure?: Error): void {
+    const instance = this.instances.find((candidate) => candidate.url === url);
+    if (!instance) {
+      return;
+    }
+
+    instance.outstanding = Math.max(0, instance.outstanding - 1);
+    metricsService.observeGotenbergInstanceRequest(url, !!failure);
+
+    if (!failure) {
+      instance.consecutiveFailures = 0;
+    } else {
+      instance.failures++;
+      instance.consecutiveFailures++;
+      instance.lastError = failure.message;
+      instance.lastFailureAt = new Date().toISOString();
+
+      if (instance.circuit === 'closed' && instance.consecutiveFailures >= GOTENBERG_FAILURE_THRESHOLD) {
+        instance.circuit = 'open';
+        instance.openedAt = instance.lastFailureAt;
+        logger.warn(
+          { instance: url, consecutiveFailures: instance.consecutiveFailures, err: failure },
+          'Gotenberg instance taken out of rotation'
+        );
+        this.scheduleProbes();
+      }
+    }
+
+    this.publish(instance);
+  }
+
+  /**
+   * Probe the health endpoint of every instance; instances out of rotation
+   * that answer are put back
+   * @returns Whether at least one instance is healthy
+   */
+  async checkHealth(): Promise<boolean> {
+    const results = await Promise.all(this.instances.map((instance) => this.probe(instance)));
+    return results.some(Boolean);
+  }
+
+  /**
+   * Load, failure counts and circuit state of every instance
+   */
+  getStats(): GotenbergInstanceStats[] {
+    return this.instances.map((instance) => ({ ...instance }));
+  }
+
+  /**
+   * Check one instance and close its circuit if it is healthy
+   */
+  private async probe(instance: GotenbergInstance): Promise<boolean> {
+    let healthy = false;
+    try {
+      const response = await axios.get(`${instance.url}/health`, {
+        timeout: GOTENBERG_PROBE_TIMEOUT_MS
+      });
+      healthy = response.status === 200;
+    } catch (error) {
+      logger.error({ err: error, instance: instance.url }, 'Gotenberg health check failed');
+    }
+
+    if (healthy && instance.circuit === 'open') {
+      instance.circuit = 'closed';
+      instance.consecutiveFailures = 0;
+      instance.openedAt = undefined;
+      logger.info({ instance: instance.url }, 'Gotenberg instance back in rotation');
+      this.publish(instance);
+    }
+    return healthy;
+  }
+
+  /**
+   * Probe instances periodically while any of them is out of rotation
+   */
+  private scheduleProbes(): void {
+    if (this.probeTimer) {
+      return;
+    }
+
+    this.probeTimer = setInterval(async () => {
+      if (!this.instances.some((instance) => instance.circuit === 'open') && this.probeTimer) {
+        clearInterval(this.probeTimer);
+        this.probeTimer = null;
+        return;
+      }
+      await this.checkHealth();
+    }, GOTENBERG_PROBE_INTERVAL_MS);
+    // Probes alone must not keep the process alive
+    this.probeTimer.unref();
+  }
+
+  /**
+   * Update the instance gauges
+   */
+  private publish(instance: GotenbergInstance): void {
+    metricsService.setGotenbergInstanceState(instance.url, instance.outstanding, instance.circuit === 'open');
+  }
+}
+
+export default new GotenbergPoolService();
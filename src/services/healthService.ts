@@ -0,0 +1,72 @@
+import conversionService from './conversionService';
+import queueService from './queueService';
+import storageService from './storageService';
+import { HealthStatus } from '../types';
+import logger from '../utils/logger';
+
+const HEALTH_CHECK_TIMEOUT_MS = parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '3000', 10);
+
+type ServiceName = keyof NonNullable<HealthStatus['services']>;
+
+class HealthService {
+  /**
+   * Check all dependencies in parallel
+   * @returns Health status; `error` when any dependency is down
+   */
+  async checkAll(): Promise<HealthStatus> {
+    return await this.check([conversionService.engineName, 'redis', 'minio']);
+  }
+
+  /**
+   * Check whether the API can accept traffic
+   * Jobs cannot be queued or results served without Redis and MinIO, while a
+   * conversion engine outage only affects synchronous conversions and is
+   * reported without failing readiness.
+   */
+  async checkReadiness(): Promise<HealthStatus> {
+    return await this.check(['redis', 'minio']);
+  }
+
+  private async check(required: ServiceName[]): Promise<HealthStatus> {
+    const engine = conversionService.engineName;
+    const [converter, redis, minio] = await Promise.all([
+      this.withTimeout(conversionService.checkHealth(), engine),
+      this.withTimeout(queueService.checkHealth(), 'redis'),
+      this.withTimeout(storageService.checkHealth(), 'minio')
+    ]);
+
+    const services: HealthStatus['services'] = {
+      [engine]: converter ? 'up' : 'down',
+      redis: redis ? 'up' : 'down',
+      minio: minio ? 'up' : 'down'
+    };
+    const down = required.filter(name => services[name] === 'down');
+
+    return {
+      status: down.length === 0 ? 'ok' : 'error',
+      timestamp: new Date().toISOString(),
+      services,
+      message: down.length === 0 ? undefined : `Unavailable: ${down.join(', ')}`
+    };
+  }
+
+  private async withTimeout(check: Promise<boolean>, name: ServiceName): Promise<boolean> {
+    let timer: NodeJS.Timeout | null = null;
+    const timeout = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => {
+        logger.error(`${name} health check timed out after ${HEALTH_CHECK_TIMEOUT_MS}ms`);
+        resolve(false);
+      }, HEALTH_CHECK_TIMEOUT_MS);
+    });
+
+    try {
+      return await Promise.race([check, timeout]);
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+    }
+  }
+}
+
+export default new HealthService();
@@ -0,0 +1,129 @@
+import fs from 'fs/promises';
+import JSZip from 'jszip';
+import path from 'path';
+import conversionService from './conversionService';
+import { DocumentMetadata } from '../types';
+import { DocumentPasswordError } from '../utils/errors';
+import { findInputFormat } from '../utils/inputFormats';
+import logger from '../utils/logger';
+import { isPasswordProtected } from '../utils/officeEncryption';
+import { getPageCount } from '../utils/pdf';
+import { decodeXmlEntities, readXmlElement } from '../utils/xml';
+
+const OOXML_TYPES = ['docx', 'pptx', 'xlsx'];
+
+class InspectionService {
+  /**
+   * Inspect a document, converting it to count pages when the document
+   * properties do not tell
+   * @param filePath - Path to the document
+   * @param originalName - Original filename
+   * @param exact - Always count pages by converting, ignoring stored page counts
+   * @param password - Password of a password-protected document, needed to count its pages
+   * @returns Document metadata
+   * @throws InvalidPasswordError if the password does not open the document
+   */
+  async inspect(filePath: string, originalName: string, exact = false, password?: string): Promise<DocumentMetadata> {
+    const metadata = await this.readMetadata(filePath, originalName);
+    if ((metadata.passwordProtected && !password) || (metadata.pageCount !== undefined && !exact)) {
+      return metadata;
+    }
+
+    try {
+      const pdfBuffer = await conversionService.convertToPDF(filePath, originalName, {}, password);
+      metadata.pageCount = await getPageCount(pdfBuffer);
+      metadata.pageCountSource = 'conversion';
+    } catch (error) {
+      logger.warn({ err: error }, `Could not count pages of ${originalName} by conversion`);
+      if (exact || error instanceof DocumentPasswordError) {
+        throw error;
+      }
+    }
+    return metadata;
+  }
+
+  /**
+   * Read metadata stored in the document itself, without converting it
+   * @param filePath - Path to the document
+   * @param originalName - Original filename
+   * @returns Document metadata; `pageCount` only when the document stores it
+   */
+  async readMetadata(filePath: string, originalName: string): Promise<DocumentMetadata> {
+    const type = path.extname(originalName).toLowerCase().replace('.', '');
+    const inputFormat = findInputFormat(originalName);
+    const data = await fs.readFile(filePath);
+    const metadata: DocumentMetadata = {
+      filename: originalName,
+      size: data.length,
+      type,
+      mimeType: inputFormat?.mimeType ?? 'application/octet-stream',
+      passwordProtected: false
+    };
+
+    // Images are wrapped into a single page
+    if (inputFormat?.route === 'image') {
+      metadata.pageCount = 1;
+      metadata.pageCountSource = 'metadata';
+      return metadata;
+    }
+
+    try {
+      metadata.passwordProtected = isPasswordProtected(data, type);
+      if (OOXML_TYPES.includes(type) && !metadata.passwordProtected) {
+        await this.readPackageMetadata(data, type, metadata);
+      }
+    } catch (error) {
+      logger.warn({ err: error }, `Could not read metadata of ${originalName}`);
+    }
+    return metadata;
+  }
+
+  /**
+   * Read OOXML document properties, slides and sheets
+   */
+  private async readPackageMetadata(data: Buffer, type: string, metadata: DocumentMetadata): Promise<void> {
+    const zip = await JSZip.loadAsync(data);
+    const core = (await zip.file('docProps/core.xml')?.async('string')) ?? '';
+    const app = (await zip.file('docProps/app.xml')?.async('string')) ?? '';
+
+    metadata.title = readXmlElement(core, 'dc:title');
+    metadata.subject = readXmlElement(core, 'dc:subject');
+    metadata.author = readXmlElement(core, 'dc:creator');
+    metadata.lastModifiedBy = readXmlElement(core, 'cp:lastModifiedBy');
+    metadata.createdAt = readXmlElement(core, 'dcterms:created');
+    metadata.modifiedAt = readXmlElement(core, 'dcterms:modified');
+
+    if (type === 'docx') {
+      metadata.wordCount = this.toCount(readXmlElement(app, 'Words'));
+      // Stored by the last editor; only as current as its last repagination
+      metadata.pageCount = this.toCount(readXmlElement(app, 'Pages')) || undefined;
+    } else if (type === 'pptx') {
+      const slides = zip.file(/^ppt\/slides\/slide\d+\.xml$/);
+      let hidden = 0;
+      for (const slide of slides) {
+        const xml = await slide.async('string');
+        if (/<p:sld\b[^>]*\sshow="(0|false)"/.test(xml)) {
+          hidden++;
+        }
+      }
+      metadata.slideCount = slides.length;
+      metadata.hiddenSlideCount = hidden;
+      // Hidden slides are not exported
+      metadata.pageCount = slides.length - hidden;
+    } else if (type === 'xlsx') {
+      const workbook = (await zip.file('xl/workbook.xml')?.async('string')) ?? '';
+      metadata.sheetNames = [...workbook.matchAll(/<sheet\b[^>]*\sname="([^"]*)"/g)].map(([, name]) => decodeXmlEntities(name));
+    }
+
+    if (metadata.pageCount !== undefined) {
+      metadata.pageCountSource = 'metadata';
+    }
+  }
+
+  private toCount(value: string | undefined): number | undefined {
+    const count = value === undefined ? NaN : parseInt(value, 10);
+    return Number.isInteger(count) && count >= 0 ? count : undefined;
+  }
+}
+
+export default new InspectionService();
@@ -0,0 +1,210 @@
+import http from 'http';
+import path from 'path';
+import client from 'prom-client';
+import queueService from './queueService';
+import { CacheOutcome } from '../types';
+import logger from '../utils/logger';
+
+const METRICS_PREFIX = 'conversion_service_';
+
+class MetricsService {
+  public readonly registry = new client.Registry();
+
+  private readonly conversionsTotal = new client.Counter({
+    name: `${METRICS_PREFIX}conversions_total`,
+    help: 'Document conversions by output format, source extension and outcome',
+    labelNames: ['format', 'source_ext', 'status'] as const,
+    registers: [this.registry]
+  });
+
+  private readonly conversionDuration = new client.Histogram({
+    name: `${METRICS_PREFIX}conversion_duration_seconds`,
+    help: 'End-to-end conversion duration by output format and source extension',
+    labelNames: ['format', 'source_ext'] as const,
+    buckets: [0.5, 1, 2.5, 5, 10, 20, 30, 60, 120, 300],
+    registers: [this.registry]
+  });
+
+  private readonly gotenbergDuration = new client.Histogram({
+    name: `${METRICS_PREFIX}gotenberg_request_duration_seconds`,
+    help: 'Gotenberg LibreOffice conversion request latency by response code',
+    labelNames: ['code'] as const,
+    buckets: [0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120, 300],
+    registers: [this.registry]
+  });
+
+  private readonly gotenbergErrors = new client.Counter({
+    name: `${METRICS_PREFIX}gotenberg_errors_total`,
+    help: 'Failed Gotenberg requests by HTTP status or network error code',
+    labelNames: ['code'] as const,
+    registers: [this.registry]
+  });
+
+  private readonly gotenbergInstanceRequests = new client.Counter({
+    name: `${METRICS_PREFIX}gotenberg_instance_requests_total`,
+    help: 'Gotenberg requests by instance and outcome',
+    labelNames: ['instance', 'outcome'] as const,
+    registers: [this.registry]
+  });
+
+  private readonly gotenbergInstanceOutstanding = new client.Gauge({
+    name: `${METRICS_PREFIX}gotenberg_instance_outstanding`,
+    help: 'In-flight Gotenberg requests by instance',
+    labelNames: ['instance'] as const,
+    registers: [this.registry]
+  });
+
+  private readonly gotenbergInstanceCircuitOpen = new client.Gauge({
+    name: `${METRICS_PREFIX}gotenberg_instance_circuit_open`,
+    help: 'Whether requests to a Gotenberg instance are suspended (1) or not (0)',
+    labelNames: ['instance'] as const,
+    registers: [this.registry]
+  });
+
+  private readonly pdftoppmDuration = new client.Histogram({
+    name: `${METRICS_PREFIX}pdftoppm_duration_seconds`,
+    help: 'pdftoppm rasterization duration',
+    buckets: [0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120],
+    registers: [this.registry]
+  });
+
+  private readonly pdftoppmPages = new client.Counter({
+    name: `${METRICS_PREFIX}pdftoppm_pages_total`,
+    help: 'Pages rendered by pdftoppm',
+    registers: [this.registry]
+  });
+
+  private readonly cacheLookups = new client.Counter({
+    name: `${METRICS_PREFIX}result_cache_lookups_total`,
+    help: 'Result cache lookups by outcome',
+    labelNames: ['result'] as const,
+    registers: [this.registry]
+  });
+
+  private readonly minioUploadBytes = new client.Counter({
+    name: `${METRICS_PREFIX}minio_upload_bytes_total`,
+    help: 'Bytes uploaded to MinIO',
+    registers: [this.registry]
+  });
+
+  constructor() {
+    client.collectDefaultMetrics({ register: this.registry, prefix: METRICS_PREFIX });
+
+    // Queue counts are read from Redis at scrape time
+    new client.Gauge({
+      name: `${METRICS_PREFIX}queue_jobs`,
+      help: 'Bull queue job counts by queue and state',
+      labelNames: ['queue', 'state'] as const,
+      registers: [this.registry],
+      async collect() {
+        this.reset();
+        const queues = [queueService.pngQueue, queueService.pdfQueue, queueService.mergeQueue];
+        for (const queue of queues) {
+          if (!queue) {
+            continue;
+          }
+          try {
+            const counts = await queue.getJobCounts();
+            this.set({ queue: queue.name, state: 'waiting' }, counts.waiting);
+            this.set({ queue: queue.name, state: 'active' }, counts.active);
+            this.set({ queue: queue.name, state: 'delayed' }, counts.delayed);
+            this.set({ queue: queue.name, state: 'failed' }, counts.failed);
+          } catch (error) {
+            logger.error({ err: error }, `Error collecting metrics for queue ${queue.name}`);
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Record a finished conversion
+   * @param format - Output format
+   * @param originalName - Source filename, used for the extension label
+   * @param status - Outcome
+   * @param seconds - Duration in seconds
+   */
+  observeConversion(format: string, originalName: string, status: 'completed' | 'failed', seconds: number): void {
+    const sourceExt = path.extname(originalName).toLowerCase().replace('.', '') || 'none';
+    this.conversionsTotal.inc({ format, source_ext: sourceExt, status });
+    this.conversionDuration.observe({ format, source_ext: sourceExt }, seconds);
+  }
+
+  /**
+   * Record a Gotenberg request
+   * @param code - HTTP status code, or a network error code such as ECONNABORTED
+   * @param seconds - Duration in seconds
+   */
+  observeGotenbergRequest(code: string, seconds: number, failed: boolean): void {
+    this.gotenbergDuration.observe({ code }, seconds);
+    if (failed) {
+      this.gotenbergErrors.inc({ code });
+    }
+  }
+
+  /**
+   * Record the outcome of a request to one Gotenberg instance
+   */
+  observeGotenbergInstanceRequest(instance: string, failed: boolean): void {
+    this.gotenbergInstanceRequests.inc({ instance, outcome: failed ? 'failure' : 'success' });
+  }
+
+  /**
+   * Publish the load and circuit state of a Gotenberg instance
+   */
+  setGotenbergInstanceState(instance: string, outstanding: number, circuitOpen: boolean): void {
+    this.gotenbergInstanceOutstanding.set({ instance }, outstanding);
+    this.gotenbergInstanceCircuitOpen.set({ instance }, circuitOpen ? 1 : 0);
+  }
+
+  /**
+   * Record a pdftoppm run
+   */
+  observePdftoppm(seconds: number, pages: number): void {
+    this.pdftoppmDuration.observe(seconds);
+    this.pdftoppmPages.inc(pages);
+  }
+
+  /**
+   * Record a result cache lookup
+   */
+  observeCacheLookup(result: CacheOutcome): void {
+    this.cacheLookups.inc({ result });
+  }
+
+  /**
+   * Record bytes uploaded to MinIO
+   */
+  addUploadBytes(bytes: number): void {
+    this.minioUploadBytes.inc(bytes);
+  }
+
+  /**
+   * Start a standalone HTTP listener exposing /metrics
+   * Used by the worker, which has no Express app.
+   */
+  startServer(port: number): http.Server {
+    const server = http.createServer(async (req, res) => {
+      if (req.method !== 'GET' || req.url !== '/metrics') {
+        res.statusCode = 404;
+        res.end();
+        return;
+      }
+      try {
+        res.setHeader('Content-Type', this.registry.contentType);
+        res.end(await this.registry.metrics());
+      } catch (error) {
+        logger.error({ err: error }, 'Error serving metrics');
+        res.statusCode = 500;
+        res.end();
+      }
+    });
+
+    server.listen(port, '0.0.0.0', () => {
+      logger.info(`Metrics listener running on port ${port}`);
+    });
+    return server;
+  }
+}
+
+export default new MetricsService();
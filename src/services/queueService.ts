@@ -1,6 +1,7 @@
 import Queue from 'bull';
 import { createClient, RedisClientType } from 'redis';
-import { JobData, JobStatus, BatchStatus } from '../types';
+import { JobData, JobStatus, BatchStatus, JobEvent, MergeJobData } from '../types';
+import logger from '../utils/logger';
 
 const REDIS_URL = process.env.REDIS_URL || 'redis://redis:6379';
 const REDIS_HOST = process.env.REDIS_HOST || 'redis';
@@ -9,9 +10,13 @@ const REDIS_PORT = parseInt(process.env.REDIS_PORT || '6379', 10);
 class QueueService {
   public pngQueue: Queue.Queue | null = null;
   public pdfQueue: Queue.Queue | null = null;
+  public mergeQueue: Queue.Queue | null = null;
   private redisClient: RedisClientType | null = null;
+  private subscriberClient: RedisClientType | null = null;
   private readonly jobStatusPrefix = 'job:status:';
   private readonly batchPrefix = 'batch:';
+  private readonly jobEventsPrefix = 'events:job:';
+  private readonly batchEventsPrefix = 'events:batch:';
 
   /**
    * Initialize queue service
@@ -24,11 +29,11 @@ class QueueService {
       });
 
       this.redisClient.on('error', (err) => {
-        console.error('Redis Client Error:', err);
+        logger.error({ err }, 'Redis Client Error');
       });
 
       await this.redisClient.connect();
-      console.log('Connected to Redis');
+      logger.info('Connected to Redis');
 
       // Create Bull queues for job processing
       const redisConfig = {
@@ -38,12 +43,14 @@ class QueueService {
         }
       };
 
+      // Carries every raster format; the name predates JPEG, WebP and TIFF output
       this.pngQueue = new Queue('png-conversion', redisConfig);
       this.pdfQueue = new Queue('pdf-conversion', redisConfig);
+      this.mergeQueue = new Queue('merge-conversion', redisConfig);
 
-      console.log('Queue service initialized');
+      logger.info('Queue service initialized');
     } catch (error) {
-      console.error('Failed to initialize queue service:', error);
+      logger.error({ err: error }, 'Failed to initialize queue service');
       throw error;
     }
   }
@@ -59,30 +66,56 @@ class QueueService {
       await this.redisClient.ping();
       return true;
     } catch (error) {
-      console.error('Redis health check failed:', error);
+      logger.error({ err: error }, 'Redis health check failed');
       return false;
     }
   }
 
   /**
-   * Add a PNG conversion job to the queue
+   * Add an image conversion job (PNG, JPEG, WebP or TIFF) to the queue
    */
-  async addPNGConversionJob(jobData: JobData): Promise<void> {
+  async addImageConversionJob(jobData: JobData): Promise<void> {
     try {
       if (!this.pngQueue) {
         throw new Error('PNG queue not initialized');
       }
 
-      const { jobId, batchId, filePath, originalName, dpi } = jobData;
+      const {
+        jobId,
+        batchId,
+        inputObject,
+        originalName,
+        dpi,
+        render,
+        imageOptions,
+        includeText,
+        options,
+        stamps,
+        encryptedPassword,
+        callback,
+        requestId,
+        sub
+      } = jobData;
+      const format = jobData.format ?? 'png';
 
       // Add job to Bull queue
       await this.pngQueue.add(
         {
           jobId,
           batchId,
-          filePath,
+          inputObject,
           originalName,
-          dpi
+          format,
+          dpi,
+          render,
+          imageOptions,
+          includeText,
+          options,
+          stamps,
+          encryptedPassword,
+          callback,
+          requestId,
+          sub
         },
         {
           jobId,
@@ -100,20 +133,24 @@ class QueueService {
         batchId,
         status: 'queued',
         originalName,
-        format: 'png',
+        format,
+        render,
+        imageOptions,
+        includeText,
+        options,
         createdAt: new Date().toISOString(),
         progress: 0
       });
 
-      console.log(`PNG conversion job ${jobId} queued`);
+      logger.info(`${format.toUpperCase()} conversion job ${jobId} queued`);
     } catch (error) {
-      console.error('Error adding PNG conversion job:', error);
+      logger.error({ err: error }, 'Error adding image conversion job');
       throw error;
     }
   }
 
   /**
-   * Add a PDF conversion job to the queue
+   * Add a PDF conversion job, or a text extraction job that runs on the PDF, to the queue
    */
   async addPDFConversionJob(jobData: JobData): Promise<void> {
     try {
@@ -121,15 +158,36 @@ class QueueService {
         throw new Error('PDF queue not initialized');
       }
 
-      const { jobId, batchId, filePath, originalName } = jobData;
+      const {
+        jobId,
+        batchId,
+        inputObject,
+        originalName,
+        options,
+        stamps,
+        encryption,
+        encryptedPassword,
+        callback,
+        requestId,
+        sub
+      } = jobData;
+      const format = jobData.format ?? 'pdf';
 
       // Add job to Bull queue
       await this.pdfQueue.add(
         {
           jobId,
           batchId,
-          filePath,
-          originalName
+          inputObject,
+          originalName,
+          format,
+          options,
+          stamps,
+          encryption,
+          encryptedPassword,
+          callback,
+          requestId,
+          sub
         },
         {
           jobId,
@@ -147,14 +205,82 @@ class QueueService {
         batchId,
         status: 'queued',
         originalName,
+        format,
+        options,
+        createdAt: new Date().toISOString(),
+        progress: 0
+      });
+
+      logger.info(`${format.toUpperCase()} conversion job ${jobId} queued`);
+    } catch (error) {
+      logger.error({ err: error }, 'Error adding PDF conversion job');
+      throw error;
+    }
+  }
+
+  /**
+   * Add a PDF merge job to the queue
+   */
+  async addMergeJob(jobData: MergeJobData): Promise<void> {
+    try {
+      if (!this.mergeQueue) {
+        throw new Error('Merge queue not initialized');
+      }
+
+      const {
+        jobId,
+        sources,
+        originalName,
+        bookmarks,
+        options,
+        stamps,
+        encryption,
+        encryptedPassword,
+        callback,
+        requestId,
+        sub
+      } = jobData;
+
+      // Add job to Bull queue
+      await this.mergeQueue.add(
+        {
+          jobId,
+          sources,
+          originalName,
+          bookmarks,
+          options,
+          stamps,
+          encryption,
+          encryptedPassword,
+          callback,
+          requestId,
+          sub
+        },
+        {
+          jobId,
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 5000
+          }
+        }
+      );
+
+      // Store initial job status
+      await this.updateJobStatus(jobId, {
+        jobId,
+        status: 'queued',
+        originalName,
         format: 'pdf',
+        sourceFiles: sources.map(source => source.originalName),
+        options,
         createdAt: new Date().toISOString(),
         progress: 0
       });
 
-      console.log(`PDF conversion job ${jobId} queued`);
+      logger.info(`PDF merge job ${jobId} queued with ${sources.length} files`);
     } catch (error) {
-      console.error('Error adding PDF conversion job:', error);
+      logger.error({ err: error }, 'Error adding PDF merge job');
       throw error;
     }
   }
@@ -181,12 +307,59 @@ class QueueService {
         await this.redisClient.sAdd(batchKey, jobId);
         await this.redisClient.expire(batchKey, 86400);
       }
+
+      const type = statusData.status === 'completed' || statusData.status === 'failed' ? statusData.status : 'status';
+      await this.publishJobEvent({ type, jobId, batchId: statusData.batchId, status: statusData });
     } catch (error) {
-      console.error('Error updating job status:', error);
+      logger.error({ err: error }, 'Error updating job status');
       throw error;
     }
   }
 
+  /**
+   * Update the progress of a running job without replacing the rest of its status
+   */
+  async updateJobProgress(jobId: string, progress: number): Promise<void> {
+    try {
+      if (!this.redisClient) {
+        throw new Error('Redis client not initialized');
+      }
+
+      const current = await this.getJobStatus(jobId);
+      if (!current) {
+        return;
+      }
+
+      const statusData = { ...current, progress, updatedAt: new Date().toISOString() };
+      await this.redisClient.set(
+        `${this.jobStatusPrefix}${jobId}`,
+        JSON.stringify(statusData),
+        { EX: 86400 } // Expire after 24 hours
+      );
+
+      await this.publishJobEvent({ type: 'progress', jobId, batchId: current.batchId, status: statusData });
+    } catch (error) {
+      logger.error({ err: error }, 'Error updating job progress');
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to status and progress events of a job
+   * @returns Function that removes the subscription
+   */
+  async subscribeToJob(jobId: string, listener: (event: JobEvent) => void): Promise<() => Promise<void>> {
+    return await this.subscribe(`${this.jobEventsPrefix}${jobId}`, listener);
+  }
+
+  /**
+   * Subscribe to status and progress events of every job in a batch
+   * @returns Function that removes the subscription
+   */
+  async subscribeToBatch(batchId: string, listener: (event: JobEvent) => void): Promise<() => Promise<void>> {
+    return await this.subscribe(`${this.batchEventsPrefix}${batchId}`, listener);
+  }
+
   /**
    * Get job status from Redis
    */
@@ -205,7 +378,7 @@ class QueueService {
 
       return JSON.parse(statusJson) as JobStatus;
     } catch (error) {
-      console.error('Error getting job status:', error);
+      logger.error({ err: error }, 'Error getting job status');
       throw error;
     }
   }
@@ -234,14 +407,18 @@ class QueueService {
         }
       }
 
-      // Calculate overall batch status
+      // Calculate overall batch status; only terminal once no job is pending
       const statuses = jobs.map(j => j.status);
       let overallStatus: BatchStatus['status'] = 'completed';
-      
-      if (statuses.some(s => s === 'failed')) {
-        overallStatus = 'partial';
+
+      if (statuses.every(s => s === 'queued')) {
+        overallStatus = 'queued';
       } else if (statuses.some(s => s === 'processing' || s === 'queued')) {
         overallStatus = 'processing';
+      } else if (statuses.every(s => s === 'failed')) {
+        overallStatus = 'failed';
+      } else if (statuses.some(s => s === 'failed')) {
+        overallStatus = 'partial';
       }
 
       return {
@@ -255,11 +432,57 @@ class QueueService {
         jobs
       };
     } catch (error) {
-      console.error('Error getting batch status:', error);
+      logger.error({ err: error }, 'Error getting batch status');
       throw error;
     }
   }
 
+  private async publishJobEvent(event: JobEvent): Promise<void> {
+    if (!this.redisClient) {
+      throw new Error('Redis client not initialized');
+    }
+
+    const message = JSON.stringify(event);
+    await this.redisClient.publish(`${this.jobEventsPrefix}${event.jobId}`, message);
+    if (event.batchId) {
+      await this.redisClient.publish(`${this.batchEventsPrefix}${event.batchId}`, message);
+    }
+  }
+
+  private async subscribe(channel: string, listener: (event: JobEvent) => void): Promise<() => Promise<void>> {
+    if (!this.redisClient) {
+      throw new Error('Redis client not initialized');
+    }
+
+    // A connection in subscriber mode cannot run other commands, so it is shared
+    // by all subscriptions and created on first use
+    if (!this.subscriberClient) {
+      this.subscriberClient = this.redisClient.duplicate();
+      this.subscriberClient.on('error', (err) => {
+        logger.error({ err }, 'Redis Subscriber Error');
+      });
+      await this.subscriberClient.connect();
+    }
+
+    const subscriber = this.subscriberClient;
+    const handler = (message: string): void => {
+      try {
+        listener(JSON.parse(message) as JobEvent);
+      } catch (error) {
+        logger.error({ err: error }, 'Error handling job event');
+      }
+    };
+
+    await subscriber.subscribe(channel, handler);
+    return async () => {
+      try {
+        await subscriber.unsubscribe(channel, handler);
+      } catch (error) {
+        logger.error({ err: error }, 'Error unsubscribing from job events');
+      }
+    };
+  }
+
   /**
    * Close connections
    */
@@ -271,12 +494,18 @@ class QueueService {
       if (this.pdfQueue) {
         await this.pdfQueue.close();
       }
+      if (this.mergeQueue) {
+        await this.mergeQueue.close();
+      }
+      if (this.subscriberClient) {
+        await this.subscriberClient.quit();
+      }
       if (this.redisClient) {
         await this.redisClient.quit();
       }
-      console.log('Queue service closed');
+      logger.info('Queue service closed');
     } catch (error) {
-      console.error('Error closing queue service:', error);
+      logger.error({ err: error }, 'Error closing queue service');
     }
   }
 }
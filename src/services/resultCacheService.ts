@@ -0,0 +1,239 @@
+import crypto from 'crypto';
+import { createReadStream } from 'fs';
+import { PassThrough, Readable } from 'stream';
+import { createClient, RedisClientType } from 'redis';
+import { CachedResult } from '../types';
+import storageService from './storageService';
+import metricsService from './metricsService';
+import logger from '../utils/logger';
+
+const REDIS_URL = process.env.REDIS_URL || 'redis://redis:6379';
+const RESULT_CACHE_TTL_SECONDS = parseInt(process.env.RESULT_CACHE_TTL_SECONDS || '86400', 10);
+
+// Bump when converter changes make earlier results stale
+const CACHE_VERSION = 1;
+const CACHE_PREFIX = 'cache/';
+
+/**
+ * Canonical JSON of a value: object keys sorted, undefined members dropped
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, member: unknown) => {
+    if (member && typeof member === 'object' && !Array.isArray(member)) {
+      return Object.fromEntries(
+        Object.entries(member as Record<string, unknown>)
+          .filter(([, entry]) => entry !== undefined)
+          .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      );
+    }
+    return member;
+  });
+}
+
+/**
+ * Conversion results keyed by a hash of the source document and the options
+ * that shape the output. Entries live in Redis with a TTL and point at copies of
+ * the results under the `cache/` prefix in MinIO, so jobs completed from the
+ * cache never depend on another job's objects.
+ */
+class ResultCacheService {
+  private redisClient: RedisClientType | null = null;
+  private readonly entryPrefix = 'cache:result:';
+
+  /**
+   * Initialize the Redis connection and the expiry of cached objects in MinIO;
+   * does nothing when the cache is disabled
+   */
+  async initialize(): Promise<void> {
+    if (!this.isEnabled()) {
+      logger.info('Result cache disabled');
+      return;
+    }
+
+    try {
+      this.redisClient = createClient({
+        url: REDIS_URL
+      });
+
+      this.redisClient.on('error', (err) => {
+        logger.error({ err }, 'Redis Client Error');
+      });
+
+      await this.redisClient.connect();
+      // Entries expire in Redis; MinIO removes their objects at the next whole day
+      await storageService.setPrefixExpiry(CACHE_PREFIX, Math.ceil(RESULT_CACHE_TTL_SECONDS / 86400));
+      logger.info(`Result cache initialized with a TTL of ${RESULT_CACHE_TTL_SECONDS}s`);
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to initialize result cache');
+      throw error;
+    }
+  }
+
+  /**
+   * Whether results are cached; RESULT_CACHE_TTL_SECONDS=0 disables the cache
+   */
+  isEnabled(): boolean {
+    return RESULT_CACHE_TTL_SECONDS > 0;
+  }
+
+  /**
+   * Cache key of a conversion: SHA-256 of the source document and its normalized options
+   * @param filePath - Local source document
+   * @param variant - Everything besides the document that changes the output
+   */
+  async computeKey(filePath: string, variant: Record<string, unknown>): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    for await (const chunk of createReadStream(filePath)) {
+      hash.update(chunk as Buffer);
+    }
+    hash.update('\0');
+    hash.update(canonicalJson({ version: CACHE_VERSION, ...variant }));
+    return hash.digest('hex');
+  }
+
+  /**
+   * Look up a cached result, recording the hit or miss
+   * Lookup failures count as misses; the cache never fails a conversion.
+   */
+  async lookup(key: string): Promise<CachedResult | null> {
+    let entry: CachedResult | null = null;
+    try {
+      const json = this.redisClient ? await this.redisClient.get(`${this.entryPrefix}${key}`) : null;
+      entry = json ? (JSON.parse(json) as CachedResult) : null;
+    } catch (error) {
+      logger.error({ err: error }, `Error reading result cache entry ${key}`);
+    }
+    metricsService.observeCacheLookup(entry ? 'hit' : 'miss');
+    return entry;
+  }
+
+  /**
+   * Cache a result, copying its objects under the cache prefix
+   * Failures are logged; the conversion that produced the result has already succeeded.
+   * @param sources - Result as an existing object or a stream, and an optional text object
+   * @param details - Everything a later job needs to report the result
+   */
+  async store(
+    key: string,
+    sources: { result: string | Readable; text?: string },
+    details: Omit<CachedResult, 'resultObject' | 'textObject' | 'createdAt'>
+  ): Promise<void> {
+    if (!this.redisClient) {
+      return;
+    }
+
+    try {
+      const resultObject = `${CACHE_PREFIX}${key}/result`;
+      let pdfSize = details.pdfSize;
+      if (typeof sources.result === 'string') {
+        await storageService.copyFile(sources.result, resultObject);
+      } else {
+        await storageService.uploadStream(sources.result, resultObject, { 'Content-Type': details.contentType });
+        pdfSize ??= (await storageService.getFileStat(resultObject)).size;
+      }
+      const textObject = sources.text
+        ? await storageService.copyFile(sources.text, `${CACHE_PREFIX}${key}/text`)
+        : undefined;
+
+      const entry: CachedResult = { ...details, pdfSize, resultObject, textObject, createdAt: new Date().toISOString() };
+      await this.redisClient.set(`${this.entryPrefix}${key}`, JSON.stringify(entry), { EX: RESULT_CACHE_TTL_SECONDS });
+      logger.info(`Cached result ${key}`);
+    } catch (error) {
+      logger.error({ err: error }, `Error caching result ${key}`);
+    }
+  }
+
+  /**
+   * Cache a copy of a stream while it is passed on to another consumer
+   * The copy never holds the stream back for long: once caching fails, it is
+   * unpiped and the stream flows to its other consumer alone.
+   * @param stream - Stream to copy; the caller consumes it as well
+   * @returns Promise settled once the copy is cached or dropped
+   */
+  async storeCopy(
+    key: string,
+    stream: Readable,
+    details: Omit<CachedResult, 'resultObject' | 'textObject' | 'createdAt'>
+  ): Promise<void> {
+    const copy = new PassThrough();
+    stream.on('error', (err: Error) => copy.destroy(err));
+    try {
+      await this.store(key, { result: stream.pipe(copy) }, details);
+    } finally {
+      // A failed upload stops reading the copy, whose backpressure would pause the stream
+      stream.unpipe(copy);
+      copy.destroy();
+    }
+  }
+
+  /**
+   * Copy a cached result into a job's own objects, named after its source document
+   * @param baseName - Source document name without extension
+   * @returns Object paths and filename, or null when the cached objects are gone
+   */
+  async copyToJob(
+    key: string,
+    entry: CachedResult,
+    jobId: string,
+    baseName: string
+  ): Promise<{ resultPath: string; textPath?: string; filename: string } | null> {
+    const filename = `${baseName}${entry.resultSuffix}`;
+    try {
+      const resultPath = await storageService.copyFile(entry.resultObject, `${jobId}/${filename}`);
+      const textPath = entry.textObject
+        ? await storageService.copyFile(entry.textObject, `${jobId}/${baseName}.txt`)
+        : undefined;
+      return { resultPath, textPath, filename };
+    } catch (error) {
+      logger.warn({ err: error }, `Cached result ${key} is unavailable; converting instead`);
+      await this.purge(key).catch(() => undefined);
+      return null;
+    }
+  }
+
+  /**
+   * Drop cached results and their objects
+   * @param key - Single entry to drop; every entry when omitted
+   * @returns Number of entries dropped
+   */
+  async purge(key?: string): Promise<number> {
+    if (!this.redisClient) {
+      return 0;
+    }
+
+    try {
+      let entries = 0;
+      if (key) {
+        entries = await this.redisClient.del(`${this.entryPrefix}${key}`);
+        await storageService.deleteFiles(`${CACHE_PREFIX}${key}/`);
+      } else {
+        for await (const entryKey of this.redisClient.scanIterator({ MATCH: `${this.entryPrefix}*`, COUNT: 100 })) {
+          entries += await this.redisClient.del(entryKey);
+        }
+        // Also removes objects whose entries already expired
+        await storageService.deleteFiles(CACHE_PREFIX);
+      }
+
+      logger.info(`Purged ${entries} result cache entries`);
+      return entries;
+    } catch (error) {
+      logger.error({ err: error }, 'Error purging result cache');
+      throw error;
+    }
+  }
+
+  /**
+   * Close connections
+   */
+  async close(): Promise<void> {
+    try {
+      if (this.redisClient) {
+        await this.redisClient.quit();
+      }
+    } catch (error) {
+      logger.error({ err: error }, 'Error closing result cache');
+    }
+  }
+}
+
+export default new ResultCacheService();
@@ -0,0 +1,313 @@
+import { execFile, spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pathToFileURL } from 'url';
+import { promisify } from 'util';
+import {
+  ConversionEngine,
+  ConversionOptions,
+  ConversionRoute,
+  EngineInput,
+  ImageOptions,
+  PdfaFormat,
+  PdfStream,
+  RasterFormat,
+  RasterScale
+} from '../types';
+import { ValidationError } from '../utils/errors';
+import logger from '../utils/logger';
+import { findPasswordProtected } from '../utils/officeEncryption';
+import { mergePdfs } from '../utils/pdf';
+import { renderPage } from '../utils/pdftoppm';
+
+const execFileAsync = promisify(execFile);
+
+const SOFFICE_PATH = process.env.SOFFICE_PATH || 'soffice';
+const SOFFICE_MAX_CONCURRENCY = Math.max(1, parseInt(process.env.SOFFICE_MAX_CONCURRENCY || '2', 10));
+const SOFFICE_TIMEOUT_MS = parseInt(process.env.SOFFICE_TIMEOUT_MS || '300000', 10);
+const SOFFICE_WORK_DIR = process.env.SOFFICE_WORK_DIR || path.join(os.tmpdir(), 'soffice');
+const SOFFICE_VERSION_TIMEOUT_MS = 10000;
+// Longest soffice stderr kept for error messages
+const STDERR_MAX_CHARS = 2048;
+
+// PDF export filter of the LibreOffice application that opens each extension
+const EXPORT_FILTERS: Record<string, string> = {
+  '.docx': 'writer_pdf_Export',
+  '.doc': 'writer_pdf_Export',
+  '.odt': 'writer_pdf_Export',
+  '.rtf': 'writer_pdf_Export',
+  '.txt': 'writer_pdf_Export',
+  '.html': 'writer_web_pdf_Export',
+  '.htm': 'writer_web_pdf_Export',
+  '.xlsx': 'calc_pdf_Export',
+  '.xls': 'calc_pdf_Export',
+  '.ods': 'calc_pdf_Export',
+  '.csv': 'calc_pdf_Export',
+  '.pptx': 'impress_pdf_Export',
+  '.ppt': 'impress_pdf_Export',
+  '.odp': 'impress_pdf_Export'
+};
+
+// SelectPdfVersion values of the PDF export filter
+const PDFA_VERSIONS: Record<PdfaFormat, string> = {
+  'PDF/A-1b': '1',
+  'PDF/A-2b': '2',
+  'PDF/A-3b': '3'
+};
+
+/**
+ * Conversion engine that runs a local `soffice --headless` per conversion, for
+ * deployments without Gotenberg. Processes are not reused: each conversion
+ * starts soffice afresh, so expect LibreOffice's start-up time on every one.
+ * At most SOFFICE_MAX_CONCURRENCY processes run at once; further conversions
+ * wait for a free slot. Every job gets its own LibreOffice user profile, since
+ * concurrent processes cannot share one.
+ */
+class SofficeEngine implements ConversionEngine {
+  readonly name = 'soffice';
+
+  private running = 0;
+  private readonly waiting: (() => void)[] = [];
+
+  /**
+   * Convert an office or HTML document with soffice
+   * @returns PDF stream; the job directory is removed once it is closed
+   * @throws ValidationError for Markdown, landscape output and password-protected documents
+   */
+  async convertToPDF(
+    route: Exclude<ConversionRoute, 'image'>,
+    file: EngineInput,
+    options: ConversionOptions
+  ): Promise<PdfStream> {
+    if (route === 'chromium-markdown') {
+      throw new ValidationError('Markdown documents cannot be converted by the soffice engine');
+    }
+    await this.checkInputs([file], options);
+
+    const jobDir = await this.createJobDir();
+    try {
+      const pdfPath = await this.convertFile(jobDir, file, 0, options);
+      const { size } = await fs.promises.stat(pdfPath);
+      const stream = fs.createReadStream(pdfPath);
+      stream.once('close', () => {
+        void this.removeJobDir(jobDir);
+      });
+      return { stream, size };
+    } catch (error) {
+      await this.removeJobDir(jobDir);
+      throw error;
+    }
+  }
+
+  /**
+   * Convert LibreOffice documents one by one and merge them locally
+   */
+  async mergeToPDF(files: EngineInput[], options: ConversionOptions): Promise<PdfStream> {
+    await this.checkInputs(files, options);
+
+    const jobDir = await this.createJobDir();
+    try {
+      const parts = [];
+      for (const [index, file] of files.entries()) {
+        const pdfPath = await this.convertFile(jobDir, file, index, options);
+        parts.push({ title: file.originalName, data: await fs.promises.readFile(pdfPath) });
+      }
+      const data = await mergePdfs(parts, false);
+      return { stream: Readable.from([data]), size: data.length };
+    } finally {
+      await this.removeJobDir(jobDir);
+    }
+  }
+
+  /**
+   * Render one PDF page with pdftoppm
+   */
+  async rasterize(
+    pdfPath: string,
+    page: number,
+    outputPath: string,
+    format: Exclude<RasterFormat, 'webp'>,
+    imageOptions: ImageOptions,
+    scale: RasterScale,
+    maxBytes: number,
+    timeoutMs: number
+  ): Promise<string> {
+    return await renderPage(pdfPath, page, outputPath, format, imageOptions, scale, maxBytes, timeoutMs);
+  }
+
+  /**
+   * Check that soffice can be started
+   */
+  async checkHealth(): Promise<boolean> {
+    try {
+      await execFileAsync(SOFFICE_PATH, ['--version'], { timeout: SOFFICE_VERSION_TIMEOUT_MS });
+      return true;
+    } catch (error) {
+      logger.error({ err: error }, 'soffice health check failed');
+      return false;
+    }
+  }
+
+  /**
+   * Reject inputs soffice cannot convert before starting it
+   */
+  private async checkInputs(files: EngineInput[], options: ConversionOptions): Promise<void> {
+    if (options.landscape !== undefined) {
+      throw new ValidationError('landscape is not supported by the soffice engine');
+    }
+    // soffice has no way to take a password on the command line and would wait for one
+    const locked = await findPasswordProtected(files);
+    if (locked) {
+      throw new ValidationError(`${locked} is password-protected; the soffice engine cannot open password-protected documents`);
+    }
+  }
+
+  /**
+   * Convert one document inside a job directory
+   * @param index - Position of the document in the job, to keep file names apart
+   * @returns Path of the PDF
+   */
+  private async convertFile(jobDir: string, file: EngineInput, index: number, options: ConversionOptions): Promise<string> {
+    const extension = path.extname(file.originalName).toLowerCase();
+    const filter = EXPORT_FILTERS[extension];
+    if (!filter) {
+      throw new ValidationError(`${extension || file.originalName} documents cannot be converted by the soffice engine`);
+    }
+
+    // soffice names its output after the input and picks the import filter by extension
+    const inputPath = path.join(jobDir, `input-${index}${extension}`);
+    const outputDir = path.join(jobDir, 'out');
+    await fs.promises.copyFile(file.filePath, inputPath);
+
+    await this.withSlot(() => this.runSoffice([
+      '--headless',
+      '--invisible',
+      '--nodefault',
+      '--nolockcheck',
+      '--nologo',
+      '--norestore',
+      `-env:UserInstallation=${pathToFileURL(path.join(jobDir, 'profile')).href}`,
+      '--convert-to',
+      this.exportFilter(filter, options),
+      '--outdir',
+      outputDir,
+      inputPath
+    ]));
+
+    const pdfPath = path.join(outputDir, `input-${index}.pdf`);
+    try {
+      await fs.promises.access(pdfPath);
+    } catch {
+      // soffice exits with 0 when it cannot load a document
+      throw new Error(`PDF conversion failed: soffice did not convert ${file.originalName}`);
+    }
+    return pdfPath;
+  }
+
+  /**
+   * `--convert-to` target with the PDF export options
+   */
+  private exportFilter(filter: string, options: ConversionOptions): string {
+    const filterData: Record<string, { type: string; value: string }> = {};
+    if (options.pageRanges) {
+      filterData.PageRange = { type: 'string', value: options.pageRanges };
+    }
+    if (options.pdfa) {
+      filterData.SelectPdfVersion = { type: 'long', value: PDFA_VERSIONS[options.pdfa] };
+    }
+    if (options.pdfua !== undefined) {
+      filterData.PDFUACompliance = { type: 'boolean', value: String(options.pdfua) };
+    }
+    if (options.losslessImageCompression !== undefined) {
+      filterData.UseLosslessCompression = { type: 'boolean', value: String(options.losslessImageCompression) };
+    }
+    return Object.keys(filterData).length ? `pdf:${filter}:${JSON.stringify(filterData)}` : `pdf:${filter}`;
+  }
+
+  /**
+   * Run soffice in its own process group, killing the group on timeout
+   * soffice hands off to a soffice.bin child, which must not outlive it.
+   */
+  private runSoffice(args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const startedAt = Date.now();
+      const child = spawn(SOFFICE_PATH, args, { detached: true, stdio: ['ignore', 'ignore', 'pipe'] });
+
+      let stderr = '';
+      child.stderr.on('data', (chunk: Buffer) => {
+        if (stderr.length < STDERR_MAX_CHARS) {
+          stderr += chunk.toString();
+        }
+      });
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        try {
+          process.kill(-(child.pid as number), 'SIGKILL');
+        } catch (error) {
+          logger.warn({ err: error }, 'Could not kill soffice');
+        }
+      }, SOFFICE_TIMEOUT_MS);
+
+      child.once('error', (error) => {
+        clearTimeout(timer);
+        reject(new Error(`PDF conversion failed: ${error.message}`));
+      });
+      child.once('close', (code, signal) => {
+        clearTimeout(timer);
+        logger.debug({ code, signal, seconds: (Date.now() - startedAt) / 1000 }, 'soffice finished');
+        if (timedOut) {
+          reject(new Error(`PDF conversion failed: soffice timed out after ${SOFFICE_TIMEOUT_MS}ms`));
+        } else if (code !== 0) {
+          reject(new Error(`PDF conversion failed: soffice exited with ${code ?? signal}: ${stderr.trim().slice(0, STDERR_MAX_CHARS)}`));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Run a task once one of the SOFFICE_MAX_CONCURRENCY process slots is free
+   */
+  private async withSlot<T>(task: () => Promise<T>): Promise<T> {
+    if (this.running < SOFFICE_MAX_CONCURRENCY) {
+      this.running++;
+    } else {
+      // The finishing task hands its slot over without decrementing `running`
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.running--;
+      }
+    }
+  }
+
+  /**
+   * Create a private directory for one job's inputs, outputs and user profile
+   */
+  private async createJobDir(): Promise<string> {
+    await fs.promises.mkdir(SOFFICE_WORK_DIR, { recursive: true });
+    return await fs.promises.mkdtemp(path.join(SOFFICE_WORK_DIR, 'job-'));
+  }
+
+  private async removeJobDir(jobDir: string): Promise<void> {
+    try {
+      await fs.promises.rm(jobDir, { recursive: true, force: true });
+    } catch (error) {
+      logger.error({ err: error }, `Error removing soffice job directory ${jobDir}`);
+    }
+  }
+}
+
+export default new SofficeEngine();
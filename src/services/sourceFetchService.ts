@@ -0,0 +1,311 @@
+import axios from 'axios';
+import { createWriteStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { Transform, TransformCallback } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { FetchedSource, SourceReference } from '../types';
+import { sniffExtension } from '../utils/contentSniffing';
+import { SourceFetchError, ValidationError } from '../utils/errors';
+import { allowedExtensions, findInputFormat, findInputFormatByMimeType } from '../utils/inputFormats';
+import logger from '../utils/logger';
+
+const SOURCE_URL_ALLOWED_HOSTS = process.env.SOURCE_URL_ALLOWED_HOSTS || '';
+const SOURCE_URL_MAX_BYTES = parseInt(process.env.SOURCE_URL_MAX_BYTES || process.env.MAX_FILE_SIZE || '52428800', 10);
+const SOURCE_URL_TIMEOUT_MS = parseInt(process.env.SOURCE_URL_TIMEOUT_MS || '60000', 10);
+const SOURCE_URL_MAX_REDIRECTS = 5;
+
+const MAX_SOURCE_HEADERS = 20;
+const HEADER_NAME_PATTERN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]{1,64}$/;
+// Headers that describe the connection rather than the request; the service sets these itself
+const RESERVED_HEADERS = [
+  'host',
+  'connection',
+  'content-length',
+  'transfer-encoding',
+  'te',
+  'trailer',
+  'upgrade',
+  'keep-alive',
+  'proxy-authorization',
+  'proxy-connection'
+];
+const DEFAULT_NAME = 'document';
+
+interface AllowedHost {
+  hostname: string;
+  wildcard: boolean;
+  port?: string;
+}
+
+/**
+ * Parse SOURCE_URL_ALLOWED_HOSTS: comma-separated hostnames, optionally with a
+ * port (`files.example.com:8443`) or a leading wildcard for subdomains (`*.example.com`)
+ */
+function parseAllowedHosts(value: string): AllowedHost[] {
+  return value
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(entry => entry !== '')
+    .map(entry => {
+      const wildcard = entry.startsWith('*.');
+      const host = wildcard ? entry.slice(2) : entry;
+      const portIndex = host.lastIndexOf(':');
+      return portIndex > 0 && !host.endsWith(']')
+        ? { hostname: host.slice(0, portIndex), wildcard, port: host.slice(portIndex + 1) }
+        : { hostname: host, wildcard };
+    });
+}
+
+/**
+ * Counts streamed bytes and fails the download once it exceeds the size cap
+ */
+class SizeLimit extends Transform {
+  public bytes = 0;
+
+  constructor(private readonly maxBytes: number) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.bytes += chunk.length;
+    if (this.bytes > this.maxBytes) {
+      callback(new ValidationError(`Source document exceeds the maximum size of ${this.maxBytes / 1024 / 1024}MB`));
+      return;
+    }
+    callback(null, chunk);
+  }
+}
+
+class SourceFetchService {
+  private readonly allowedHosts = parseAllowedHosts(SOURCE_URL_ALLOWED_HOSTS);
+
+  /**
+   * Whether sourceUrl requests are enabled, i.e. at least one host is allowed
+   */
+  isEnabled(): boolean {
+    return this.allowedHosts.length > 0;
+  }
+
+  /**
+   * Whether a URL points at an allowed host; only http(s) URLs without credentials qualify
+   */
+  isAllowed(url: URL): boolean {
+    if ((url.protocol !== 'http:' && url.protocol !== 'https:') || url.username || url.password) {
+      return false;
+    }
+    const hostname = url.hostname.toLowerCase();
+    const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+    return this.allowedHosts.some(allowed => {
+      const hostMatches = allowed.wildcard
+        ? hostname.endsWith(`.${allowed.hostname}`)
+        : hostname === allowed.hostname;
+      return hostMatches && (allowed.port === undefined || allowed.port === port);
+    });
+  }
+
+  /**
+   * Validate a `{ sourceUrl, headers? }` reference from a request body
+   * @throws ValidationError if the URL is malformed or not allowed, or a header is invalid
+   */
+  parseReference(value: unknown): SourceReference {
+    if (!this.isEnabled()) {
+      throw new ValidationError('sourceUrl is not enabled on this service');
+    }
+    const { sourceUrl, headers } = (value ?? {}) as Record<string, unknown>;
+    if (typeof sourceUrl !== 'string' || sourceUrl === '') {
+      throw new ValidationError('sourceUrl must be an absolute http(s) URL');
+    }
+
+    let url: URL;
+    try {
+      url = new URL(sourceUrl);
+    } catch {
+      throw new ValidationError('sourceUrl must be an absolute http(s) URL');
+    }
+    if (!this.isAllowed(url)) {
+      throw new ValidationError(`sourceUrl host ${url.host} is not allowed`);
+    }
+
+    return { sourceUrl: url.toString(), headers: this.parseHeaders(headers) };
+  }
+
+  /**
+   * Download a source document into a directory, following redirects within the allowlist
+   * The file is named after its sniffed type, and its original name carries the matching extension.
+   * @param source - Reference validated by parseReference
+   * @param directory - Directory to download into
+   * @throws ValidationError if the document is too large or not a supported format
+   * @throws SourceFetchError if the source host cannot be reached or answers with an error
+   */
+  async fetchToFile(source: SourceReference, directory: string): Promise<FetchedSource> {
+    await fs.mkdir(directory, { recursive: true });
+    const id = uuidv4();
+    const downloadPath = path.join(directory, `${id}.download`);
+
+    try {
+      const { contentType, filename, size } = await this.download(source, downloadPath);
+      const extension = await this.resolveExtension(downloadPath, filename, contentType);
+      const originalName = `${path.basename(filename, path.extname(filename)) || DEFAULT_NAME}${extension}`;
+      const format = findInputFormat(originalName);
+      if (!format) {
+        throw new ValidationError(`Unsupported source document type. Allowed types: ${allowedExtensions().join(', ')}`);
+      }
+
+      const filePath = path.join(directory, `${id}${extension}`);
+      await fs.rename(downloadPath, filePath);
+      logger.info({ size, extension }, `Fetched source document from ${new URL(source.sourceUrl).host}`);
+      return { path: filePath, originalName, mimeType: format.mimeType, size };
+    } catch (error) {
+      await fs.rm(downloadPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Stream a source document to disk, re-checking the allowlist on every redirect
+   */
+  private async download(
+    source: SourceReference,
+    filePath: string
+  ): Promise<{ contentType: string; filename: string; size: number }> {
+    let url = new URL(source.sourceUrl);
+    let headers = source.headers ?? {};
+
+    for (let redirects = 0; ; redirects++) {
+      let response;
+      try {
+        response = await axios.get(url.toString(), {
+          headers,
+          responseType: 'stream',
+          timeout: SOURCE_URL_TIMEOUT_MS,
+          maxRedirects: 0,
+          validateStatus: () => true
+        });
+      } catch (error) {
+        throw new SourceFetchError(`Could not fetch sourceUrl: ${(error as Error).message}`);
+      }
+
+      const location = response.headers['location'];
+      if (response.status >= 300 && response.status < 400 && typeof location === 'string') {
+        response.data.destroy();
+        if (redirects >= SOURCE_URL_MAX_REDIRECTS) {
+          throw new SourceFetchError('Could not fetch sourceUrl: too many redirects');
+        }
+        const next = new URL(location, url);
+        if (!this.isAllowed(next)) {
+          throw new ValidationError(`sourceUrl redirected to ${next.host}, which is not allowed`);
+        }
+        // Caller headers often carry credentials meant for the original host only
+        if (next.host !== url.host) {
+          headers = {};
+        }
+        url = next;
+        continue;
+      }
+
+      if (response.status < 200 || response.status >= 300) {
+        response.data.destroy();
+        throw new SourceFetchError(`Could not fetch sourceUrl: ${url.host} responded with status ${response.status}`);
+      }
+
+      const declaredSize = parseInt(String(response.headers['content-length'] ?? ''), 10);
+      if (declaredSize > SOURCE_URL_MAX_BYTES) {
+        response.data.destroy();
+        throw new ValidationError(`Source document exceeds the maximum size of ${SOURCE_URL_MAX_BYTES / 1024 / 1024}MB`);
+      }
+
+      const limit = new SizeLimit(SOURCE_URL_MAX_BYTES);
+      try {
+        await pipeline(response.data, limit, createWriteStream(filePath, { mode: 0o600 }));
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          throw error;
+        }
+        throw new SourceFetchError(`Could not fetch sourceUrl: ${(error as Error).message}`);
+      }
+
+      return {
+        contentType: String(response.headers['content-type'] ?? ''),
+        filename: this.filenameFor(url, response.headers['content-disposition']),
+        size: limit.bytes
+      };
+    }
+  }
+
+  /**
+   * Pick the extension of a downloaded file: its content first, then its name, then
+   * the declared Content-Type for plain text formats that content cannot tell apart
+   */
+  private async resolveExtension(filePath: string, filename: string, contentType: string): Promise<string> {
+    const nameExtension = path.extname(filename).toLowerCase();
+    const named = findInputFormat(filename);
+    const sniffed = await sniffExtension(filePath);
+    if (sniffed) {
+      // Keep an equivalent extension from the name, e.g. .jpeg or .htm
+      const detected = findInputFormat(`${DEFAULT_NAME}${sniffed}`);
+      return named && detected && named.mimeType === detected.mimeType ? nameExtension : sniffed;
+    }
+    if (named) {
+      return nameExtension;
+    }
+    return findInputFormatByMimeType(contentType.split(';')[0].trim())?.extension ?? nameExtension;
+  }
+
+  /**
+   * Name of a downloaded document, from Content-Disposition or else the URL path
+   */
+  private filenameFor(url: URL, disposition: unknown): string {
+    let name = '';
+    if (typeof disposition === 'string') {
+      const encoded = /filename\*\s*=\s*[\w-]+'[^']*'([^;]+)/i.exec(disposition);
+      const plain = /filename\s*=\s*(?:"([^"]*)"|([^;]+))/i.exec(disposition);
+      try {
+        name = encoded ? decodeURIComponent(encoded[1].trim()) : (plain?.[1] ?? plain?.[2] ?? '').trim();
+      } catch {
+        name = '';
+      }
+    }
+    if (!name) {
+      try {
+        name = decodeURIComponent(url.pathname.split('/').pop() ?? '');
+      } catch {
+        name = '';
+      }
+    }
+    // Keep only a plain file name; it ends up in form fields, archives and headers
+    name = path.basename(name.replace(/\\/g, '/')).replace(/[\x00-\x1f\x7f"]/g, '').trim();
+    return name && name !== '.' && name !== '..' ? name : DEFAULT_NAME;
+  }
+
+  /**
+   * Validate the optional headers sent to the source host
+   */
+  private parseHeaders(value: unknown): Record<string, string> | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      throw new ValidationError('headers must be an object of header names to string values');
+    }
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (entries.length > MAX_SOURCE_HEADERS) {
+      throw new ValidationError(`headers may contain at most ${MAX_SOURCE_HEADERS} entries`);
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, headerValue] of entries) {
+      if (!HEADER_NAME_PATTERN.test(name) || RESERVED_HEADERS.includes(name.toLowerCase())) {
+        throw new ValidationError(`header ${name} cannot be sent to the source host`);
+      }
+      if (typeof headerValue !== 'string' || /[\r\n\0]/.test(headerValue)) {
+        throw new ValidationError(`header ${name} must be a single-line string`);
+      }
+      headers[name] = headerValue;
+    }
+    return headers;
+  }
+}
+
+export default new SourceFetchService();
@@ -3,8 +3,11 @@ import fs from 'fs';
 import path from 'path';
 import archiver from 'archiver';
 import { v4 as uuidv4 } from 'uuid';
-import { MinioMetadata } from '../types';
-import { Readable } from 'stream';
+import { MinioMetadata, ZipEntry } from '../types';
+import { Readable, Transform, Writable } from 'stream';
+import { once } from 'events';
+import metricsService from './metricsService';
+import logger from '../utils/logger';
 
 const MINIO_ENDPOINT = process.env.MINIO_ENDPOINT || 'minio';
 const MINIO_PORT = parseInt(process.env.MINIO_PORT || '9000', 10);
@@ -12,6 +15,8 @@ const MINIO_ACCESS_KEY = process.env.MINIO_ACCESS_KEY || 'minioadmin';
 const MINIO_SECRET_KEY = process.env.MINIO_SECRET_KEY || 'minioadmin';
 const MINIO_USE_SSL = process.env.MINIO_USE_SSL === 'true';
 const MINIO_BUCKET = process.env.MINIO_BUCKET || 'conversions';
+// Streams of unknown length are uploaded in parts of this size, each buffered in memory
+const MINIO_PART_SIZE = parseInt(process.env.MINIO_PART_SIZE || '16777216', 10); // 16MB default
 
 class StorageService {
   private minioClient: Minio.Client | null = null;
@@ -27,21 +32,22 @@ class StorageService {
         port: MINIO_PORT,
         useSSL: MINIO_USE_SSL,
         accessKey: MINIO_ACCESS_KEY,
-        secretKey: MINIO_SECRET_KEY
+        secretKey: MINIO_SECRET_KEY,
+        partSize: MINIO_PART_SIZE
       });
 
       // Check if bucket exists, create if not
       const bucketExists = await this.minioClient.bucketExists(this.bucketName);
       if (!bucketExists) {
         await this.minioClient.makeBucket(this.bucketName, 'us-east-1');
-        console.log(`Created bucket: ${this.bucketName}`);
+        logger.info(`Created bucket: ${this.bucketName}`);
       } else {
-        console.log(`Bucket ${this.bucketName} already exists`);
+        logger.info(`Bucket ${this.bucketName} already exists`);
       }
 
-      console.log('MinIO storage service initialized');
+      logger.info('MinIO storage service initialized');
     } catch (error) {
-      console.error('Failed to initialize MinIO:', error);
+      logger.error({ err: error }, 'Failed to initialize MinIO');
       throw error;
     }
   }
@@ -57,7 +63,7 @@ class StorageService {
       await this.minioClient.bucketExists(this.bucketName);
       return true;
     } catch (error) {
-      console.error('MinIO health check failed:', error);
+      logger.error({ err: error }, 'MinIO health check failed');
       return false;
     }
   }
@@ -89,86 +95,190 @@ class StorageService {
         stats.size,
         metadata
       );
+      metricsService.addUploadBytes(stats.size);
 
-      console.log(`Uploaded ${filePath} to ${this.bucketName}/${objectName}`);
+      logger.info(`Uploaded ${filePath} to ${this.bucketName}/${objectName}`);
       return objectName;
     } catch (error) {
-      console.error('Error uploading file to MinIO:', error);
+      logger.error({ err: error }, 'Error uploading file to MinIO');
+      throw error;
+    }
+  }
+
+  /**
+   * Upload a stream of unknown length to MinIO as a multipart upload
+   * Only one part (MINIO_PART_SIZE) is held in memory at a time.
+   * @param stream - Content to upload
+   * @param objectName - Object name in MinIO
+   * @param metadata - Optional metadata
+   * @returns Object path in MinIO
+   */
+  async uploadStream(stream: Readable, objectName: string, metadata: MinioMetadata = {}): Promise<string> {
+    try {
+      if (!this.minioClient) {
+        throw new Error('MinIO client not initialized');
+      }
+
+      let bytes = 0;
+      const counted = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          bytes += chunk.length;
+          callback(null, chunk);
+        }
+      });
+      stream.on('error', (err: Error) => counted.destroy(err));
+      await this.minioClient.putObject(this.bucketName, objectName, stream.pipe(counted), metadata);
+      metricsService.addUploadBytes(bytes);
+
+      logger.info(`Uploaded ${bytes} bytes to ${this.bucketName}/${objectName}`);
+      return objectName;
+    } catch (error) {
+      logger.error({ err: error }, 'Error uploading stream to MinIO');
+      throw error;
+    }
+  }
+
+  /**
+   * Copy an object within the bucket without downloading it
+   * @param sourceObject - Existing object name
+   * @param objectName - Object name of the copy
+   * @returns Object path of the copy
+   */
+  async copyFile(sourceObject: string, objectName: string): Promise<string> {
+    try {
+      if (!this.minioClient) {
+        throw new Error('MinIO client not initialized');
+      }
+
+      await this.minioClient.copyObject(
+        this.bucketName,
+        objectName,
+        `/${this.bucketName}/${sourceObject}`,
+        new Minio.CopyConditions()
+      );
+      logger.info(`Copied ${sourceObject} to ${objectName}`);
+      return objectName;
+    } catch (error) {
+      logger.error({ err: error }, 'Error copying file in MinIO');
       throw error;
     }
   }
 
   /**
    * Upload multiple files and create a ZIP archive in MinIO
+   * The archive is streamed into a multipart upload as it is compressed, so it
+   * is never held in memory as a whole.
    * @param filePaths - Array of local file paths
    * @param zipName - Name for the ZIP file
    * @returns Object path in MinIO
    */
   async uploadFilesAsZip(filePaths: string[], zipName: string | null = null): Promise<string> {
-    return new Promise(async (resolve, reject) => {
-      try {
-        if (!this.minioClient) {
-          throw new Error('MinIO client not initialized');
-        }
+    const objectName = zipName ?? `${uuidv4()}.zip`;
+    const archive = archiver('zip', {
+      zlib: { level: 9 }
+    });
+    archive.on('warning', (err: Error) => {
+      logger.warn({ err }, 'ZIP archive warning');
+    });
 
-        if (!zipName) {
-          zipName = `${uuidv4()}.zip`;
-        }
+    try {
+      const upload = this.uploadStream(archive, objectName, { 'Content-Type': 'application/zip' });
+      for (const filePath of filePaths) {
+        archive.file(filePath, { name: path.basename(filePath) });
+      }
+      // A failed upload stops consuming the archive, so finalizing alone could wait forever
+      await Promise.all([archive.finalize(), upload]);
+
+      logger.info(`Uploaded ZIP archive: ${objectName}`);
+      return objectName;
+    } catch (error) {
+      logger.error({ err: error }, 'Error creating and uploading ZIP');
+      archive.abort();
+      throw error;
+    }
+  }
 
-        const archive = archiver('zip', {
-          zlib: { level: 9 }
-        });
-
-        // Track upload
-        const uploadPromise = new Promise<string>((resolveUpload, rejectUpload) => {
-          const chunks: Buffer[] = [];
-          
-          archive.on('data', (chunk: Buffer) => {
-            chunks.push(chunk);
-          });
-
-          archive.on('end', async () => {
-            try {
-              if (!this.minioClient) {
-                throw new Error('MinIO client not initialized');
-              }
-
-              const buffer = Buffer.concat(chunks);
-              await this.minioClient.putObject(
-                this.bucketName,
-                zipName!,
-                buffer,
-                buffer.length,
-                { 'Content-Type': 'application/zip' }
-              );
-              console.log(`Uploaded ZIP archive: ${zipName}`);
-              resolveUpload(zipName!);
-            } catch (err) {
-              rejectUpload(err);
-            }
-          });
-
-          archive.on('error', (err: Error) => {
-            rejectUpload(err);
-          });
-        });
-
-        // Add files to archive
-        for (const filePath of filePaths) {
-          const fileName = path.basename(filePath);
-          archive.file(filePath, { name: fileName });
+  /**
+   * Stream a ZIP archive built from MinIO objects and in-memory entries
+   * Objects are fetched one at a time so no local disk is needed and only
+   * one MinIO download is open at any moment.
+   * @param entries - Archive entries, either an object name or inline content
+   * @param destination - Writable stream receiving the ZIP
+   * @returns false when the destination closed before the archive was complete
+   */
+  async streamZip(entries: ZipEntry[], destination: Writable): Promise<boolean> {
+    const archive = archiver('zip', {
+      zlib: { level: 9 }
+    });
+
+    const done = new Promise<void>((resolve, reject) => {
+      archive.on('error', reject);
+      archive.on('warning', (err: Error) => {
+        logger.warn({ err }, 'ZIP archive warning');
+      });
+      destination.on('error', reject);
+      destination.on('finish', resolve);
+      destination.on('close', resolve);
+    });
+    // Rejections are surfaced through the await below or the catch block
+    done.catch(() => undefined);
+
+    // A destination that goes away before the archive is complete (e.g. the
+    // client disconnected) stops the archive and the object being appended
+    let current: Readable | null = null;
+    let gone = false;
+    let onGone: () => void = () => undefined;
+    const destinationGone = new Promise<void>((resolve) => {
+      onGone = () => {
+        if (gone || destination.writableFinished) {
+          return;
         }
+        gone = true;
+        archive.abort();
+        current?.destroy();
+        resolve();
+      };
+    });
+    destination.once('close', onGone);
+    destination.once('error', onGone);
 
-        // Finalize archive
-        await archive.finalize();
+    archive.pipe(destination);
 
-        const result = await uploadPromise;
-        resolve(result);
-      } catch (error) {
-        console.error('Error creating and uploading ZIP:', error);
-        reject(error);
+    try {
+      for (const entry of entries) {
+        if (gone) {
+          break;
+        }
+        if (entry.objectName) {
+          current = await this.downloadFile(entry.objectName);
+          if (gone) {
+            current.destroy();
+            break;
+          }
+          archive.append(current, { name: entry.name });
+          await Promise.race([once(archive, 'entry'), destinationGone]);
+          current = null;
+        } else {
+          archive.append(entry.content ?? '', { name: entry.name });
+        }
       }
-    });
+
+      if (gone) {
+        logger.info('ZIP archive destination closed before the archive was complete');
+        return false;
+      }
+      await archive.finalize();
+      await done;
+      return true;
+    } catch (error) {
+      logger.error({ err: error }, 'Error streaming ZIP archive');
+      archive.abort();
+      current?.destroy();
+      throw error;
+    } finally {
+      destination.off('close', onGone);
+      destination.off('error', onGone);
+    }
   }
 
   /**
@@ -185,7 +295,65 @@ class StorageService {
       const stream = await this.minioClient.getObject(this.bucketName, objectName);
       return stream;
     } catch (error) {
-      console.error('Error downloading file from MinIO:', error);
+      logger.error({ err: error }, 'Error downloading file from MinIO');
+      throw error;
+    }
+  }
+
+  /**
+   * Download a file from MinIO to a local path
+   * @param objectName - Object name in MinIO
+   * @param filePath - Local destination path
+   */
+  async downloadToFile(objectName: string, filePath: string): Promise<void> {
+    try {
+      if (!this.minioClient) {
+        throw new Error('MinIO client not initialized');
+      }
+
+      await this.minioClient.fGetObject(this.bucketName, objectName, filePath);
+      logger.info(`Downloaded ${this.bucketName}/${objectName} to ${filePath}`);
+    } catch (error) {
+      logger.error({ err: error }, 'Error downloading file from MinIO to disk');
+      throw error;
+    }
+  }
+
+  /**
+   * Download a byte range of a file from MinIO
+   * @param objectName - Object name in MinIO
+   * @param offset - First byte to read
+   * @param length - Number of bytes to read
+   * @returns File stream
+   */
+  async downloadPartialFile(objectName: string, offset: number, length: number): Promise<Readable> {
+    try {
+      if (!this.minioClient) {
+        throw new Error('MinIO client not initialized');
+      }
+
+      const stream = await this.minioClient.getPartialObject(this.bucketName, objectName, offset, length);
+      return stream;
+    } catch (error) {
+      logger.error({ err: error }, 'Error downloading partial file from MinIO');
+      throw error;
+    }
+  }
+
+  /**
+   * Get object metadata (size, etag, content type)
+   * @param objectName - Object name in MinIO
+   * @returns Object stat
+   */
+  async getFileStat(objectName: string): Promise<Minio.BucketItemStat> {
+    try {
+      if (!this.minioClient) {
+        throw new Error('MinIO client not initialized');
+      }
+
+      return await this.minioClient.statObject(this.bucketName, objectName);
+    } catch (error) {
+      logger.error({ err: error }, 'Error getting file stat from MinIO');
       throw error;
     }
   }
@@ -209,7 +377,7 @@ class StorageService {
       );
       return url;
     } catch (error) {
-      console.error('Error generating presigned URL:', error);
+      logger.error({ err: error }, 'Error generating presigned URL');
       throw error;
     }
   }
@@ -225,9 +393,72 @@ class StorageService {
       }
 
       await this.minioClient.removeObject(this.bucketName, objectName);
-      console.log(`Deleted ${objectName} from MinIO`);
+      logger.info(`Deleted ${objectName} from MinIO`);
+    } catch (error) {
+      logger.error({ err: error }, 'Error deleting file from MinIO');
+      throw error;
+    }
+  }
+
+  /**
+   * Delete every file under a prefix
+   * @param prefix - Object prefix
+   * @returns Number of deleted objects
+   */
+  async deleteFiles(prefix: string): Promise<number> {
+    try {
+      if (!this.minioClient) {
+        throw new Error('MinIO client not initialized');
+      }
+
+      const objectNames = (await this.listFiles(prefix))
+        .map(object => object.name)
+        .filter((name): name is string => !!name);
+      if (objectNames.length > 0) {
+        await this.minioClient.removeObjects(this.bucketName, objectNames);
+      }
+      logger.info(`Deleted ${objectNames.length} objects under ${prefix} from MinIO`);
+      return objectNames.length;
+    } catch (error) {
+      logger.error({ err: error }, 'Error deleting files from MinIO');
+      throw error;
+    }
+  }
+
+  /**
+   * Have MinIO delete objects under a prefix once they reach an age
+   * Adds or replaces a bucket lifecycle rule named after the prefix and keeps
+   * the bucket's other rules. MinIO counts the age in whole days and removes
+   * expired objects in the background, so they may outlive it a little.
+   * @param prefix - Object prefix
+   * @param days - Age in days
+   */
+  async setPrefixExpiry(prefix: string, days: number): Promise<void> {
+    try {
+      if (!this.minioClient) {
+        throw new Error('MinIO client not initialized');
+      }
+
+      const ruleId = `expire-${prefix.replace(/[^A-Za-z0-9-]/g, '')}`;
+      let rules: Minio.LifecycleRule[] = [];
+      try {
+        const current = await this.minioClient.getBucketLifecycle(this.bucketName);
+        rules = current ? ([] as Minio.LifecycleRule[]).concat(current.Rule ?? []) : [];
+      } catch (error) {
+        if ((error as { code?: string }).code !== 'NoSuchLifecycleConfiguration') {
+          throw error;
+        }
+      }
+
+      await this.minioClient.setBucketLifecycle(this.bucketName, {
+        Rule: [
+          ...rules.filter(rule => rule.ID !== ruleId),
+          { ID: ruleId, Status: 'Enabled', Filter: { Prefix: prefix }, Expiration: { Days: days } }
+        ]
+      });
+      logger.info(`Objects under ${prefix} expire after ${days} days`);
     } catch (error) {
-      console.error('Error deleting file from MinIO:', error);
+      logger.error({ err: error }, `Error setting expiry for ${prefix} in MinIO`);
       throw error;
     }
   }
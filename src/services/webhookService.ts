@@ -0,0 +1,305 @@
+import Queue from 'bull';
+import axios from 'axios';
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import { createClient, RedisClientType } from 'redis';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BatchStatus,
+  JobStatus,
+  WebhookConfig,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookEvent
+} from '../types';
+import logger from '../utils/logger';
+import { hostAddress, isNonPublicAddress, publicLookup } from '../utils/network';
+
+const REDIS_URL = process.env.REDIS_URL || 'redis://redis:6379';
+const REDIS_HOST = process.env.REDIS_HOST || 'redis';
+const REDIS_PORT = parseInt(process.env.REDIS_PORT || '6379', 10);
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10);
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10);
+const WEBHOOK_BACKOFF_MS = parseInt(process.env.WEBHOOK_BACKOFF_MS || '10000', 10);
+// Allow callbacks to loopback, private and link-local addresses, for receivers on an internal network
+const WEBHOOK_ALLOW_PRIVATE_NETWORKS = process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS === 'true';
+
+const SIGNATURE_HEADER = 'X-Signature-256';
+const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+class WebhookService {
+  public webhookQueue: Queue.Queue | null = null;
+  private redisClient: RedisClientType | null = null;
+  private readonly deliveryLogPrefix = 'webhook:log:';
+  private readonly batchCallbackPrefix = 'webhook:batch:';
+  private readonly batchNotifiedPrefix = 'webhook:batch-notified:';
+  private readonly maxLogEntries = 100;
+  // Connect to the address the callback host resolves to only if it is public
+  private readonly httpAgent = new http.Agent({ lookup: publicLookup });
+  private readonly httpsAgent = new https.Agent({ lookup: publicLookup });
+
+  /**
+   * Initialize webhook service
+   */
+  async initialize(): Promise<void> {
+    try {
+      this.redisClient = createClient({
+        url: REDIS_URL
+      });
+
+      this.redisClient.on('error', (err) => {
+        logger.error({ err }, 'Redis Client Error');
+      });
+
+      await this.redisClient.connect();
+
+      this.webhookQueue = new Queue('webhook-delivery', {
+        redis: {
+          host: REDIS_HOST,
+          port: REDIS_PORT
+        }
+      });
+
+      logger.info('Webhook service initialized');
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to initialize webhook service');
+      throw error;
+    }
+  }
+
+  /**
+   * Sign a delivery with the callback secret
+   * The timestamp is signed along with the body, so receivers can reject
+   * deliveries replayed later.
+   * @param timestamp - Unix time in seconds, sent as X-Webhook-Timestamp
+   * @returns Signature header value (`sha256=<hex>` over `<timestamp>.<body>`)
+   */
+  sign(timestamp: number, body: string, secret: string): string {
+    return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  }
+
+  /**
+   * Whether a callback URL may be called: http(s), and unless
+   * WEBHOOK_ALLOW_PRIVATE_NETWORKS is set, not a non-public IP address.
+   * Host names are checked once they are resolved, at delivery time.
+   */
+  isAllowedDestination(url: URL): boolean {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return false;
+    }
+    const address = hostAddress(url);
+    return WEBHOOK_ALLOW_PRIVATE_NETWORKS || !address || !isNonPublicAddress(address);
+  }
+
+  /**
+   * Queue a webhook delivery for a job that reached a terminal state
+   */
+  async notifyJob(callback: WebhookConfig, jobStatus: JobStatus): Promise<void> {
+    const event: WebhookEvent = jobStatus.status === 'completed' ? 'job.completed' : 'job.failed';
+    await this.enqueue(jobStatus.jobId, callback, event, jobStatus);
+  }
+
+  /**
+   * Queue a webhook delivery for a batch that reached a terminal state
+   * Only the first caller for a batch enqueues, so concurrent workers
+   * finishing the last jobs do not send duplicates.
+   */
+  async notifyBatch(batchStatus: BatchStatus): Promise<void> {
+    if (batchStatus.status === 'queued' || batchStatus.status === 'processing') {
+      return;
+    }
+
+    const callback = await this.getBatchCallback(batchStatus.batchId);
+    if (!callback) {
+      return;
+    }
+
+    if (!(await this.claimBatchNotification(batchStatus.batchId))) {
+      return;
+    }
+
+    const event: WebhookEvent = `batch.${batchStatus.status}`;
+    await this.enqueue(batchStatus.batchId, callback, event, batchStatus);
+  }
+
+  /**
+   * Remember the callback of a batch until the batch finishes
+   */
+  async registerBatchCallback(batchId: string, callback: WebhookConfig): Promise<void> {
+    try {
+      if (!this.redisClient) {
+        throw new Error('Redis client not initialized');
+      }
+
+      await this.redisClient.set(
+        `${this.batchCallbackPrefix}${batchId}`,
+        JSON.stringify(callback),
+        { EX: 86400 } // Expire after 24 hours
+      );
+    } catch (error) {
+      logger.error({ err: error }, 'Error registering batch callback');
+      throw error;
+    }
+  }
+
+  /**
+   * Deliver a webhook once; throws on failure so Bull retries with backoff
+   * @param delivery - Delivery to send
+   * @param attempt - 1-based attempt number
+   */
+  async deliver(delivery: WebhookDelivery, attempt: number): Promise<void> {
+    const { deliveryId, subjectId, callback, payload } = delivery;
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Webhook-Event': payload.event,
+      'X-Webhook-Delivery': deliveryId,
+      [TIMESTAMP_HEADER]: String(timestamp)
+    };
+    if (callback.secret) {
+      headers[SIGNATURE_HEADER] = this.sign(timestamp, body, callback.secret);
+    }
+
+    const logEntry: WebhookDeliveryAttempt = {
+      deliveryId,
+      event: payload.event,
+      url: callback.url,
+      attempt,
+      success: false,
+      attemptedAt: new Date().toISOString()
+    };
+
+    try {
+      if (!this.isAllowedDestination(new URL(callback.url))) {
+        throw new Error(`${callback.url} is not a public address`);
+      }
+      const response = await axios.post(callback.url, body, {
+        headers,
+        timeout: WEBHOOK_TIMEOUT_MS,
+        maxRedirects: 0,
+        ...(WEBHOOK_ALLOW_PRIVATE_NETWORKS ? {} : { httpAgent: this.httpAgent, httpsAgent: this.httpsAgent })
+      });
+      logEntry.success = true;
+      logEntry.statusCode = response.status;
+      logger.info(`Delivered ${payload.event} webhook ${deliveryId} to ${callback.url}`);
+    } catch (error) {
+      logEntry.error = (error as Error).message;
+      if (axios.isAxiosError(error) && error.response) {
+        logEntry.statusCode = error.response.status;
+      }
+      logger.error({ err: error, statusCode: logEntry.statusCode }, `Webhook delivery ${deliveryId} attempt ${attempt} failed`);
+      throw new Error(`Webhook delivery failed: ${logEntry.error}`);
+    } finally {
+      await this.recordAttempt(subjectId, logEntry);
+    }
+  }
+
+  /**
+   * Get the delivery log of a job or batch, newest first
+   */
+  async getDeliveries(subjectId: string): Promise<WebhookDeliveryAttempt[]> {
+    try {
+      if (!this.redisClient) {
+        throw new Error('Redis client not initialized');
+      }
+
+      const entries = await this.redisClient.lRange(`${this.deliveryLogPrefix}${subjectId}`, 0, -1);
+      return entries.map(entry => JSON.parse(entry) as WebhookDeliveryAttempt);
+    } catch (error) {
+      logger.error({ err: error }, 'Error getting webhook deliveries');
+      throw error;
+    }
+  }
+
+  /**
+   * Close connections
+   */
+  async close(): Promise<void> {
+    try {
+      if (this.webhookQueue) {
+        await this.webhookQueue.close();
+      }
+      if (this.redisClient) {
+        await this.redisClient.quit();
+      }
+      logger.info('Webhook service closed');
+    } catch (error) {
+      logger.error({ err: error }, 'Error closing webhook service');
+    }
+  }
+
+  private async enqueue(
+    subjectId: string,
+    callback: WebhookConfig,
+    event: WebhookEvent,
+    data: JobStatus | BatchStatus
+  ): Promise<void> {
+    try {
+      if (!this.webhookQueue) {
+        throw new Error('Webhook queue not initialized');
+      }
+
+      const delivery: WebhookDelivery = {
+        deliveryId: uuidv4(),
+        subjectId,
+        callback,
+        payload: { event, timestamp: new Date().toISOString(), data }
+      };
+
+      await this.webhookQueue.add(delivery, {
+        jobId: delivery.deliveryId,
+        attempts: WEBHOOK_MAX_ATTEMPTS,
+        backoff: {
+          type: 'exponential',
+          delay: WEBHOOK_BACKOFF_MS
+        },
+        removeOnComplete: true
+      });
+
+      logger.info(`Queued ${event} webhook ${delivery.deliveryId} for ${subjectId}`);
+    } catch (error) {
+      logger.error({ err: error }, 'Error queueing webhook delivery');
+      throw error;
+    }
+  }
+
+  private async getBatchCallback(batchId: string): Promise<WebhookConfig | null> {
+    if (!this.redisClient) {
+      throw new Error('Redis client not initialized');
+    }
+
+    const callbackJson = await this.redisClient.get(`${this.batchCallbackPrefix}${batchId}`);
+    return callbackJson ? (JSON.parse(callbackJson) as WebhookConfig) : null;
+  }
+
+  private async claimBatchNotification(batchId: string): Promise<boolean> {
+    if (!this.redisClient) {
+      throw new Error('Redis client not initialized');
+    }
+
+    const result = await this.redisClient.set(`${this.batchNotifiedPrefix}${batchId}`, '1', {
+      NX: true,
+      EX: 86400
+    });
+    return result === 'OK';
+  }
+
+  private async recordAttempt(subjectId: string, entry: WebhookDeliveryAttempt): Promise<void> {
+    try {
+      if (!this.redisClient) {
+        throw new Error('Redis client not initialized');
+      }
+
+      const key = `${this.deliveryLogPrefix}${subjectId}`;
+      await this.redisClient.lPush(key, JSON.stringify(entry));
+      await this.redisClient.lTrim(key, 0, this.maxLogEntries - 1);
+      await this.redisClient.expire(key, 86400);
+    } catch (error) {
+      logger.error({ err: error }, 'Error recording webhook delivery');
+    }
+  }
+}
+
+export default new WebhookService();
@@ -4,6 +4,7 @@ declare global {
   namespace Express {
     interface Request {
       user?: JWTPayload & { [key: string]: any };
+      requestId?: string;
     }
   }
 }
@@ -1,9 +1,103 @@
+import { Readable } from 'stream';
+
+export type PdfaFormat = 'PDF/A-1b' | 'PDF/A-2b' | 'PDF/A-3b';
+
+export interface ConversionOptions {
+  pageRanges?: string;
+  landscape?: boolean;
+  pdfa?: PdfaFormat;
+  pdfua?: boolean;
+  losslessImageCompression?: boolean;
+}
+
+export type ConversionRoute = 'libreoffice' | 'chromium-html' | 'chromium-markdown' | 'image';
+
+export interface InputFormat {
+  extension: string;
+  mimeType: string;
+  route: ConversionRoute;
+}
+
+export type RasterFormat = 'png' | 'jpeg' | 'webp' | 'tiff';
+
+export type TextFormat = 'text' | 'json';
+
+export type OutputFormat = 'pdf' | RasterFormat | TextFormat;
+
+export type TiffCompression = 'none' | 'packbits' | 'lzw' | 'deflate' | 'jpeg';
+
+export interface ImageOptions {
+  quality?: number;
+  compression?: TiffCompression;
+}
+
+export interface RenderOptions {
+  pages?: string;
+  width?: number;
+  height?: number;
+  thumbnail?: boolean;
+}
+
+export type ImageSize = Pick<RenderOptions, 'width' | 'height'>;
+
+export type StampPosition =
+  | 'center'
+  | 'top-left'
+  | 'top-center'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-center'
+  | 'bottom-right';
+
+export interface Watermark {
+  text?: string;
+  image?: string;
+  opacity: number;
+  position: StampPosition;
+  rotation: number;
+}
+
+export interface PdfStamps {
+  watermark?: Watermark;
+  header?: string;
+  footer?: string;
+}
+
+export type PdfPermission = 'print' | 'modify' | 'copy' | 'annotate' | 'form' | 'assemble';
+
+export interface PdfEncryption {
+  userPassword?: string;
+  ownerPassword: string;
+  permissions: PdfPermission[];
+}
+
 export interface JobData {
   jobId: string;
   batchId?: string;
-  filePath: string;
+  inputObject: string;
   originalName: string;
+  format?: OutputFormat;
   dpi?: number;
+  render?: RenderOptions;
+  imageOptions?: ImageOptions;
+  includeText?: boolean;
+  options?: ConversionOptions;
+  stamps?: PdfStamps;
+  encryption?: PdfEncryption;
+  encryptedPassword?: string;
+  callback?: WebhookConfig;
+  requestId?: string;
+  sub?: string;
+}
+
+export interface MergeSource {
+  inputObject: string;
+  originalName: string;
+}
+
+export interface MergeJobData extends Omit<JobData, 'inputObject' | 'format' | 'dpi' | 'render' | 'imageOptions' | 'includeText'> {
+  sources: MergeSource[];
+  bookmarks: boolean;
 }
 
 export interface JobStatus {
@@ -11,7 +105,7 @@ export interface JobStatus {
   batchId?: string;
   status: 'queued' | 'processing' | 'completed' | 'failed';
   originalName: string;
-  format: 'pdf' | 'png';
+  format: OutputFormat;
   progress: number;
   createdAt?: string;
   updatedAt?: string;
@@ -22,7 +116,32 @@ export interface JobStatus {
   contentType?: string;
   filename?: string;
   fileCount?: number;
+  pageCount?: number;
+  pdfSize?: number;
+  textPath?: string;
+  textDownloadUrl?: string;
+  sourceFiles?: string[];
+  render?: RenderOptions;
+  imageOptions?: ImageOptions;
+  includeText?: boolean;
+  options?: ConversionOptions;
   error?: string;
+  errorCode?: string;
+  cache?: CacheOutcome;
+  cacheKey?: string;
+}
+
+export interface JobEvent {
+  type: 'progress' | 'status' | 'completed' | 'failed';
+  jobId: string;
+  batchId?: string;
+  status: Partial<JobStatus>;
+}
+
+export interface SseMessage {
+  event: string;
+  data: unknown;
+  terminal?: boolean;
 }
 
 export interface BatchStatus {
@@ -40,7 +159,9 @@ export interface HealthStatus {
   status: 'ok' | 'error';
   timestamp: string;
   services?: {
-    gotenberg: 'up' | 'down';
+    // The conversion engine in use, reported under its name
+    gotenberg?: 'up' | 'down';
+    soffice?: 'up' | 'down';
     redis: 'up' | 'down';
     minio: 'up' | 'down';
   };
@@ -54,7 +175,221 @@ export interface ConversionResult {
   fileCount?: number;
 }
 
+export interface LogContext {
+  requestId?: string;
+  jobId?: string;
+  batchId?: string;
+  sub?: string;
+}
+
+export interface WebhookConfig {
+  url: string;
+  secret?: string;
+}
+
+export type WebhookEvent =
+  | 'job.completed'
+  | 'job.failed'
+  | 'batch.completed'
+  | 'batch.partial'
+  | 'batch.failed';
+
+export interface WebhookPayload {
+  event: WebhookEvent;
+  timestamp: string;
+  data: JobStatus | BatchStatus;
+}
+
+export interface WebhookDelivery {
+  deliveryId: string;
+  subjectId: string;
+  callback: WebhookConfig;
+  payload: WebhookPayload;
+}
+
+export interface WebhookDeliveryAttempt {
+  deliveryId: string;
+  event: WebhookEvent;
+  url: string;
+  attempt: number;
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+  attemptedAt: string;
+}
+
+export interface ZipEntry {
+  name: string;
+  objectName?: string;
+  content?: string | Buffer;
+}
+
+export interface BatchManifest {
+  batchId: string;
+  status: BatchStatus['status'];
+  generatedAt: string;
+  completed: { jobId: string; originalName: string; path: string }[];
+  failed: { jobId: string; originalName: string; error?: string }[];
+}
+
+export interface DocumentMetadata {
+  filename: string;
+  size: number;
+  type: string;
+  mimeType: string;
+  passwordProtected: boolean;
+  pageCount?: number;
+  pageCountSource?: 'metadata' | 'conversion';
+  title?: string;
+  subject?: string;
+  author?: string;
+  lastModifiedBy?: string;
+  createdAt?: string;
+  modifiedAt?: string;
+  wordCount?: number;
+  slideCount?: number;
+  hiddenSlideCount?: number;
+  sheetNames?: string[];
+}
+
+export interface PdfStream {
+  stream: Readable;
+  // Size in bytes, when known before the stream ends
+  size?: number;
+}
+
+export interface ImageConversionResult {
+  files: string[];
+  pdfPageCount: number;
+  pdfSize: number;
+}
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+export interface TextBlock {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+}
+
+export interface PageText {
+  page: number;
+  width: number;
+  height: number;
+  blocks: TextBlock[];
+}
+
+export interface PdfPart {
+  title: string;
+  data: Buffer;
+}
+
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
 export interface MinioMetadata {
   [key: string]: string | number | boolean;
 }
 
+
+export interface SourceReference {
+  sourceUrl: string;
+  headers?: Record<string, string>;
+}
+
+export interface FetchedSource {
+  path: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+}
+
+export type CacheOutcome = 'hit' | 'miss';
+
+export interface CachedResult {
+  resultObject: string;
+  // Result filename after the source document's base name, e.g. `.pdf` or `-1.png`
+  resultSuffix: string;
+  contentType: string;
+  textObject?: string;
+  fileCount?: number;
+  pageCount?: number;
+  pdfSize?: number;
+  createdAt: string;
+}
+
+export type GotenbergBalancing = 'least-outstanding' | 'round-robin';
+
+export interface GotenbergInstanceStats {
+  url: string;
+  // `open` instances receive no requests until a health probe succeeds
+  circuit: 'closed' | 'open';
+  outstanding: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastFailureAt?: string;
+  openedAt?: string;
+}
+
+export type ConversionEngineName = 'gotenberg' | 'soffice';
+
+export interface EngineInput {
+  filePath: string;
+  originalName: string;
+}
+
+// Target resolution of a rendered page: a DPI, or a size in pixels; a missing dimension keeps the aspect ratio
+export interface RasterScale {
+  dpi?: number;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Backend that turns documents into PDFs and PDF pages into images
+ */
+export interface ConversionEngine {
+  readonly name: ConversionEngineName;
+  /**
+   * Convert a document along its conversion route; images are converted without an engine
+   * @throws DocumentPasswordError if the document is password-protected and the password is missing or wrong
+   */
+  convertToPDF(
+    route: Exclude<ConversionRoute, 'image'>,
+    file: EngineInput,
+    options: ConversionOptions,
+    password?: string
+  ): Promise<PdfStream>;
+  /**
+   * Convert LibreOffice documents into one PDF, in the given order
+   * @throws DocumentPasswordError if a document is password-protected and the password is missing or wrong
+   */
+  mergeToPDF(files: EngineInput[], options: ConversionOptions, password?: string): Promise<PdfStream>;
+  /**
+   * Render one page of a PDF
+   * @param outputPath - Output path without extension
+   * @param maxBytes - Largest image allowed, what is left of the job's output budget
+   * @param timeoutMs - Longest the page may take, what is left of the job's time limit
+   * @returns Path of the image, with the extension of the format
+   */
+  rasterize(
+    pdfPath: string,
+    page: number,
+    outputPath: string,
+    format: Exclude<RasterFormat, 'webp'>,
+    imageOptions: ImageOptions,
+    scale: RasterScale,
+    maxBytes: number,
+    timeoutMs: number
+  ): Promise<string>;
+  checkHealth(): Promise<boolean>;
+}
@@ -0,0 +1,105 @@
+import CFB from 'cfb';
+import fs from 'fs/promises';
+import JSZip from 'jszip';
+
+const SNIFF_BYTES = 512;
+
+const PDF_SIGNATURE = Buffer.from('%PDF-');
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const JPEG_SIGNATURE = Buffer.from([0xff, 0xd8, 0xff]);
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const CFB_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const RTF_SIGNATURE = Buffer.from('{\\rtf');
+
+// OpenDocument packages name their type in an uncompressed `mimetype` entry
+const OPENDOCUMENT_EXTENSIONS: Record<string, string> = {
+  'application/vnd.oasis.opendocument.text': '.odt',
+  'application/vnd.oasis.opendocument.spreadsheet': '.ods',
+  'application/vnd.oasis.opendocument.presentation': '.odp'
+};
+
+// Main part of each OOXML package type
+const OOXML_PARTS: [string, string][] = [
+  ['word/document.xml', '.docx'],
+  ['ppt/presentation.xml', '.pptx'],
+  ['xl/workbook.xml', '.xlsx']
+];
+
+// Main stream of each legacy binary Office format
+const CFB_STREAMS: [string, string][] = [
+  ['WordDocument', '.doc'],
+  ['PowerPoint Document', '.ppt'],
+  ['Workbook', '.xls'],
+  ['Book', '.xls']
+];
+
+/**
+ * Tell a file's type from its content rather than its name or declared content type
+ * Plain text formats (text, CSV, Markdown) cannot be told apart and, like
+ * encrypted Office documents, give undefined.
+ * @param filePath - File to inspect
+ * @returns Extension including the dot, or undefined when the content does not tell
+ */
+export async function sniffExtension(filePath: string): Promise<string | undefined> {
+  const handle = await fs.open(filePath, 'r');
+  let head: Buffer;
+  try {
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+    head = buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  const startsWith = (signature: Buffer): boolean => head.subarray(0, signature.length).equals(signature);
+  if (startsWith(PDF_SIGNATURE)) {
+    return '.pdf';
+  }
+  if (startsWith(PNG_SIGNATURE)) {
+    return '.png';
+  }
+  if (startsWith(JPEG_SIGNATURE)) {
+    return '.jpg';
+  }
+  if (startsWith(RTF_SIGNATURE)) {
+    return '.rtf';
+  }
+  if (startsWith(ZIP_SIGNATURE)) {
+    return await sniffPackage(filePath);
+  }
+  if (startsWith(CFB_SIGNATURE)) {
+    return await sniffCompoundFile(filePath);
+  }
+  if (!head.includes(0) && /^\s*(<!doctype html|<html)/i.test(head.toString('utf8').replace(/^\uFEFF/, ''))) {
+    return '.html';
+  }
+  return undefined;
+}
+
+/**
+ * Tell OpenDocument and OOXML packages apart by their entries
+ */
+async function sniffPackage(filePath: string): Promise<string | undefined> {
+  try {
+    const zip = await JSZip.loadAsync(await fs.readFile(filePath));
+    const mimetype = (await zip.file('mimetype')?.async('string'))?.trim();
+    if (mimetype) {
+      return OPENDOCUMENT_EXTENSIONS[mimetype];
+    }
+    return OOXML_PARTS.find(([part]) => zip.file(part))?.[1];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Tell legacy Office formats apart by their main stream
+ */
+async function sniffCompoundFile(filePath: string): Promise<string | undefined> {
+  try {
+    const container = CFB.read(await fs.readFile(filePath), { type: 'buffer' });
+    return CFB_STREAMS.find(([stream]) => CFB.find(container, stream))?.[1];
+  } catch {
+    return undefined;
+  }
+}
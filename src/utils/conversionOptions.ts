@@ -0,0 +1,398 @@
+import {
+  ConversionOptions,
+  ImageOptions,
+  OutputFormat,
+  PdfaFormat,
+  PdfEncryption,
+  PdfPermission,
+  PdfStamps,
+  RasterFormat,
+  RenderOptions,
+  StampPosition,
+  TiffCompression
+} from '../types';
+import { ValidationError } from './errors';
+
+const TIFF_COMPRESSIONS: TiffCompression[] = ['none', 'packbits', 'lzw', 'deflate', 'jpeg'];
+const PNG_MAX_DIMENSION = parseInt(process.env.PNG_MAX_DIMENSION || '10000', 10);
+const PDFA_FORMATS: PdfaFormat[] = ['PDF/A-1b', 'PDF/A-2b', 'PDF/A-3b'];
+const PAGE_RANGES_PATTERN = /^\d+(-\d+)?(,\d+(-\d+)?)*$/;
+const STAMP_POSITIONS: StampPosition[] = [
+  'center',
+  'top-left',
+  'top-center',
+  'top-right',
+  'bottom-left',
+  'bottom-center',
+  'bottom-right'
+];
+const PDF_PERMISSIONS: PdfPermission[] = ['print', 'modify', 'copy', 'annotate', 'form', 'assemble'];
+const WATERMARK_IMAGE_MAX_BYTES = parseInt(process.env.WATERMARK_IMAGE_MAX_BYTES || '524288', 10); // 512KB default
+const MAX_STAMP_LENGTH = 200;
+const MAX_PASSWORD_LENGTH = 256;
+// Characters the standard PDF fonts can draw (WinAnsi encoding)
+const STAMP_TEXT_PATTERN = /^[\x20-\x7e\xa0-\xff\u2013\u2014\u2018\u2019\u201a\u201c\u201d\u201e\u2020\u2021\u2022\u2026\u2030\u20ac\u2122]*$/;
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+const JPEG_SIGNATURE = Buffer.from([0xff, 0xd8, 0xff]);
+
+/**
+ * Parse an optional boolean form field ('true'/'false' or a JSON boolean)
+ */
+export function parseBoolean(name: string, value: unknown): boolean | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (value === true || value === 'true') {
+    return true;
+  }
+  if (value === false || value === 'false') {
+    return false;
+  }
+  throw new ValidationError(`${name} must be true or false`);
+}
+
+/**
+ * Validate a page range list such as `1,3-5`
+ */
+export function parsePageRanges(name: string, value: unknown): string | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const ranges = typeof value === 'string' ? value.replace(/\s+/g, '') : '';
+  if (!PAGE_RANGES_PATTERN.test(ranges)) {
+    throw new ValidationError(`${name} must be a list of pages or ranges, e.g. 1,3-5`);
+  }
+
+  for (const range of ranges.split(',')) {
+    const [start, end = start] = range.split('-').map(n => parseInt(n, 10));
+    if (start < 1 || end < start) {
+      throw new ValidationError(`${name} contains an invalid range: ${range}`);
+    }
+  }
+  return ranges;
+}
+
+/**
+ * List the pages selected by a validated page range list, ascending and without duplicates
+ * @param ranges - Page ranges such as `1,3-5`
+ * @param maxPages - Stop after this many pages
+ */
+export function expandPageRanges(ranges: string, maxPages: number): number[] {
+  const bounds = ranges
+    .split(',')
+    .map(range => {
+      const [start, end = start] = range.split('-').map(n => parseInt(n, 10));
+      return { start, end };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  const pages: number[] = [];
+  let next = 1;
+  for (const { start, end } of bounds) {
+    for (let page = Math.max(start, next); page <= end && pages.length < maxPages; page++) {
+      pages.push(page);
+    }
+    next = Math.max(next, end + 1);
+  }
+  return pages;
+}
+
+/**
+ * Parse an optional pixel dimension form field
+ */
+function parseDimension(name: string, value: unknown): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const dimension = Number(value);
+  if (!Number.isInteger(dimension) || dimension < 1 || dimension > PNG_MAX_DIMENSION) {
+    throw new ValidationError(`${name} must be an integer between 1 and ${PNG_MAX_DIMENSION}`);
+  }
+  return dimension;
+}
+
+/**
+ * Parse PNG page selection and sizing from request fields
+ * A fixed width and/or height replaces the DPI setting; with both the page
+ * is scaled to fit the box. A thumbnail renders only the first page.
+ * @param body - Multipart form fields or JSON body
+ * @returns Options that were provided; empty object when none
+ * @throws ValidationError if a field is invalid or conflicts with another
+ */
+export function parseRenderOptions(body: Record<string, unknown>): RenderOptions {
+  const render: RenderOptions = {};
+
+  const pages = parsePageRanges('pages', body.pages);
+  if (pages !== undefined) {
+    if (body.pageRanges !== undefined && body.pageRanges !== '') {
+      throw new ValidationError('pages cannot be combined with pageRanges');
+    }
+    render.pages = pages;
+  }
+
+  const width = parseDimension('width', body.width);
+  if (width !== undefined) {
+    render.width = width;
+  }
+
+  const height = parseDimension('height', body.height);
+  if (height !== undefined) {
+    render.height = height;
+  }
+
+  const thumbnail = parseBoolean('thumbnail', body.thumbnail);
+  if (thumbnail) {
+    if (render.pages || (body.pageRanges !== undefined && body.pageRanges !== '')) {
+      throw new ValidationError('thumbnail always renders the first page and cannot be combined with pages or pageRanges');
+    }
+    render.thumbnail = true;
+  }
+
+  const sized = render.width !== undefined || render.height !== undefined || render.thumbnail;
+  if (sized && body.dpi !== undefined && body.dpi !== '') {
+    throw new ValidationError('dpi cannot be combined with width, height or thumbnail');
+  }
+
+  return render;
+}
+
+/**
+ * Parse format-specific image encoding options from request fields
+ * `quality` (1-100) applies to JPEG and WebP, `compression` to TIFF.
+ * @param format - Requested raster format
+ * @param body - Multipart form fields or JSON body
+ * @returns Options that were provided; empty object when none
+ * @throws ValidationError if a field is invalid or does not apply to the format
+ */
+export function parseImageOptions(format: RasterFormat, body: Record<string, unknown>): ImageOptions {
+  const imageOptions: ImageOptions = {};
+
+  if (body.quality !== undefined && body.quality !== '') {
+    if (format !== 'jpeg' && format !== 'webp') {
+      throw new ValidationError('quality only applies to jpeg and webp output');
+    }
+    const quality = Number(body.quality);
+    if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+      throw new ValidationError('quality must be an integer between 1 and 100');
+    }
+    imageOptions.quality = quality;
+  }
+
+  if (body.compression !== undefined && body.compression !== '') {
+    if (format !== 'tiff') {
+      throw new ValidationError('compression only applies to tiff output');
+    }
+    if (!TIFF_COMPRESSIONS.includes(body.compression as TiffCompression)) {
+      throw new ValidationError(`compression must be one of: ${TIFF_COMPRESSIONS.join(', ')}`);
+    }
+    imageOptions.compression = body.compression as TiffCompression;
+  }
+
+  return imageOptions;
+}
+
+/**
+ * Parse LibreOffice conversion options from request fields
+ * @param body - Multipart form fields or JSON body
+ * @returns Options that were provided; empty object when none
+ * @throws ValidationError if a field has an invalid value
+ */
+export function parseConversionOptions(body: Record<string, unknown>): ConversionOptions {
+  const options: ConversionOptions = {};
+
+  const pageRanges = parsePageRanges('pageRanges', body.pageRanges);
+  if (pageRanges !== undefined) {
+    options.pageRanges = pageRanges;
+  }
+
+  const landscape = parseBoolean('landscape', body.landscape);
+  if (landscape !== undefined) {
+    options.landscape = landscape;
+  }
+
+  if (body.pdfa !== undefined && body.pdfa !== '') {
+    if (!PDFA_FORMATS.includes(body.pdfa as PdfaFormat)) {
+      throw new ValidationError(`pdfa must be one of: ${PDFA_FORMATS.join(', ')}`);
+    }
+    options.pdfa = body.pdfa as PdfaFormat;
+  }
+
+  const pdfua = parseBoolean('pdfua', body.pdfua);
+  if (pdfua !== undefined) {
+    options.pdfua = pdfua;
+  }
+
+  const losslessImageCompression = parseBoolean('losslessImageCompression', body.losslessImageCompression);
+  if (losslessImageCompression !== undefined) {
+    options.losslessImageCompression = losslessImageCompression;
+  }
+
+  return options;
+}
+
+/**
+ * Parse optional stamp text, drawn with a standard PDF font
+ */
+function parseStampText(name: string, value: unknown): string | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string' || value.length > MAX_STAMP_LENGTH) {
+    throw new ValidationError(`${name} must be text of at most ${MAX_STAMP_LENGTH} characters`);
+  }
+  if (!STAMP_TEXT_PATTERN.test(value)) {
+    throw new ValidationError(`${name} may only contain Latin-1 characters`);
+  }
+  return value;
+}
+
+/**
+ * Parse an optional number form field within bounds
+ */
+function parseNumber(name: string, value: unknown, min: number, max: number): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw new ValidationError(`${name} must be a number between ${min} and ${max}`);
+  }
+  return number;
+}
+
+/**
+ * Validate a base64 PNG or JPEG watermark image, optionally given as a data URL
+ * @returns Plain base64 image data
+ */
+function parseWatermarkImage(value: unknown): string | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const base64 = typeof value === 'string' ? value.replace(/^data:image\/(png|jpeg);base64,/, '') : '';
+  const image = Buffer.from(base64, 'base64');
+  if (!image.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE) && !image.subarray(0, JPEG_SIGNATURE.length).equals(JPEG_SIGNATURE)) {
+    throw new ValidationError('watermarkImage must be a base64 encoded PNG or JPEG image');
+  }
+  if (image.length > WATERMARK_IMAGE_MAX_BYTES) {
+    throw new ValidationError(`watermarkImage must be at most ${WATERMARK_IMAGE_MAX_BYTES} bytes`);
+  }
+  return base64;
+}
+
+/**
+ * Parse watermark and header/footer stamps from request fields
+ * Stamp text may contain `{date}`, `{page}` and `{pages}` placeholders.
+ * @param body - Multipart form fields or JSON body
+ * @returns Stamps that were provided, or undefined when none
+ * @throws ValidationError if a field is invalid or the output is PDF/A
+ */
+export function parseStamps(body: Record<string, unknown>): PdfStamps | undefined {
+  const stamps: PdfStamps = {};
+
+  const text = parseStampText('watermarkText', body.watermarkText);
+  const image = parseWatermarkImage(body.watermarkImage);
+  if (text !== undefined && image !== undefined) {
+    throw new ValidationError('watermarkText cannot be combined with watermarkImage');
+  }
+  if (text !== undefined || image !== undefined) {
+    const position = body.watermarkPosition === undefined || body.watermarkPosition === '' ? 'center' : body.watermarkPosition;
+    if (!STAMP_POSITIONS.includes(position as StampPosition)) {
+      throw new ValidationError(`watermarkPosition must be one of: ${STAMP_POSITIONS.join(', ')}`);
+    }
+    stamps.watermark = {
+      text,
+      image,
+      opacity: parseNumber('watermarkOpacity', body.watermarkOpacity, 0, 1) ?? 0.3,
+      position: position as StampPosition,
+      rotation: parseNumber('watermarkRotation', body.watermarkRotation, -180, 180) ?? 0
+    };
+  }
+
+  const header = parseStampText('header', body.header);
+  if (header !== undefined) {
+    stamps.header = header;
+  }
+
+  const footer = parseStampText('footer', body.footer);
+  if (footer !== undefined) {
+    stamps.footer = footer;
+  }
+
+  if (Object.keys(stamps).length === 0) {
+    return undefined;
+  }
+  if (body.pdfa !== undefined && body.pdfa !== '') {
+    throw new ValidationError('watermarks and header/footer stamps cannot be combined with pdfa');
+  }
+  return stamps;
+}
+
+/**
+ * Parse output PDF encryption from request fields
+ * `ownerPassword` is required to encrypt; `userPassword` additionally
+ * protects opening the document. `permissions` lists what remains allowed.
+ * @param format - Requested output format
+ * @param body - Multipart form fields or JSON body
+ * @returns Encryption settings, or undefined when not requested
+ * @throws ValidationError if a field is invalid, or the output is not a PDF or is PDF/A
+ */
+export function parseEncryption(format: OutputFormat, body: Record<string, unknown>): PdfEncryption | undefined {
+  const { ownerPassword, userPassword, permissions } = body;
+  const given = (value: unknown): boolean => value !== undefined && value !== '';
+  if (!given(ownerPassword) && !given(userPassword) && !given(permissions)) {
+    return undefined;
+  }
+
+  if (format !== 'pdf') {
+    throw new ValidationError('encryption only applies to pdf output');
+  }
+  if (given(body.pdfa)) {
+    throw new ValidationError('encryption cannot be combined with pdfa');
+  }
+  if (typeof ownerPassword !== 'string' || ownerPassword === '') {
+    throw new ValidationError('ownerPassword is required to encrypt the output');
+  }
+  for (const [name, value] of [['ownerPassword', ownerPassword], ['userPassword', userPassword]]) {
+    if (given(value) && (typeof value !== 'string' || value.length > MAX_PASSWORD_LENGTH || /[\r\n]/.test(value))) {
+      throw new ValidationError(`${name} must be a single line of at most ${MAX_PASSWORD_LENGTH} characters`);
+    }
+  }
+
+  const allowed = typeof permissions === 'string' && permissions !== ''
+    ? permissions.split(',').map(p => p.trim())
+    : [];
+  for (const permission of allowed) {
+    if (!PDF_PERMISSIONS.includes(permission as PdfPermission)) {
+      throw new ValidationError(`permissions must be a list of: ${PDF_PERMISSIONS.join(', ')}`);
+    }
+  }
+
+  return {
+    ownerPassword,
+    userPassword: given(userPassword) ? (userPassword as string) : undefined,
+    permissions: [...new Set(allowed as PdfPermission[])]
+  };
+}
+
+/**
+ * Map conversion options to Gotenberg LibreOffice route form fields
+ */
+export function toGotenbergFields(options: ConversionOptions): Record<string, string> {
+  const fields: Record<string, string> = {};
+  if (options.pageRanges) {
+    fields.nativePageRanges = options.pageRanges;
+  }
+  if (options.landscape !== undefined) {
+    fields.landscape = String(options.landscape);
+  }
+  if (options.pdfa) {
+    fields.pdfa = options.pdfa;
+  }
+  if (options.pdfua !== undefined) {
+    fields.pdfua = String(options.pdfua);
+  }
+  if (options.losslessImageCompression !== undefined) {
+    fields.losslessImageCompression = String(options.losslessImageCompression);
+  }
+  return fields;
+}
@@ -0,0 +1,59 @@
+/**
+ * Invalid client input; routes map it to 400
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * A password-protected document could not be opened; routes map it to `status`
+ */
+export class DocumentPasswordError extends Error {
+  constructor(message: string, readonly code: 'PASSWORD_REQUIRED' | 'INVALID_PASSWORD', readonly status: number) {
+    super(message);
+    this.name = 'DocumentPasswordError';
+  }
+}
+
+/**
+ * The document is password-protected and no password was given
+ */
+export class PasswordRequiredError extends DocumentPasswordError {
+  constructor(filename: string) {
+    super(`${filename} is password-protected; send its password`, 'PASSWORD_REQUIRED', 423);
+    this.name = 'PasswordRequiredError';
+  }
+}
+
+/**
+ * The given password does not open the document
+ */
+export class InvalidPasswordError extends DocumentPasswordError {
+  constructor(filename: string) {
+    super(`The password does not open ${filename}`, 'INVALID_PASSWORD', 422);
+    this.name = 'InvalidPasswordError';
+  }
+}
+
+/**
+ * A remote source document could not be downloaded; routes map it to 502
+ */
+export class SourceFetchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SourceFetchError';
+  }
+}
+
+/**
+ * No Gotenberg instance can take a request; routes map it to 503
+ */
+export class GotenbergUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GotenbergUnavailableError';
+  }
+}
@@ -0,0 +1,52 @@
+import { ByteRange } from '../types';
+
+/**
+ * Parse a single-range HTTP Range header (RFC 7233)
+ * @param header - Value of the Range request header
+ * @param size - Total size of the resource in bytes
+ * @returns The requested range, null if the header should be ignored,
+ *          or 'unsatisfiable' if no byte of the range lies within the resource
+ */
+export function parseRangeHeader(header: string | undefined, size: number): ByteRange | null | 'unsatisfiable' {
+  if (!header) {
+    return null;
+  }
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) {
+    // Multi-range and non-byte units are not supported; serve the full body
+    return null;
+  }
+
+  const [, startStr, endStr] = match;
+  if (startStr === '' && endStr === '') {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+
+  if (startStr === '') {
+    // Suffix range: last N bytes
+    const suffixLength = parseInt(endStr, 10);
+    if (suffixLength === 0) {
+      return 'unsatisfiable';
+    }
+    start = Math.max(size - suffixLength, 0);
+    end = size - 1;
+  } else {
+    start = parseInt(startStr, 10);
+    const lastByte = endStr === '' ? Infinity : parseInt(endStr, 10);
+    if (lastByte < start) {
+      // A last byte before the first makes the header invalid; it is ignored (RFC 7233 §2.1)
+      return null;
+    }
+    end = Math.min(lastByte, size - 1);
+  }
+
+  if (start >= size) {
+    return 'unsatisfiable';
+  }
+
+  return { start, end };
+}
@@ -0,0 +1,108 @@
+import path from 'path';
+import { ConversionOptions, ConversionRoute, InputFormat } from '../types';
+import { ValidationError } from './errors';
+import logger from './logger';
+
+// Every input format the service knows how to convert, and the route that converts it
+const INPUT_FORMATS: InputFormat[] = [
+  { extension: '.docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', route: 'libreoffice' },
+  { extension: '.pptx', mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation', route: 'libreoffice' },
+  { extension: '.xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', route: 'libreoffice' },
+  { extension: '.doc', mimeType: 'application/msword', route: 'libreoffice' },
+  { extension: '.ppt', mimeType: 'application/vnd.ms-powerpoint', route: 'libreoffice' },
+  { extension: '.xls', mimeType: 'application/vnd.ms-excel', route: 'libreoffice' },
+  { extension: '.odt', mimeType: 'application/vnd.oasis.opendocument.text', route: 'libreoffice' },
+  { extension: '.ods', mimeType: 'application/vnd.oasis.opendocument.spreadsheet', route: 'libreoffice' },
+  { extension: '.odp', mimeType: 'application/vnd.oasis.opendocument.presentation', route: 'libreoffice' },
+  { extension: '.rtf', mimeType: 'application/rtf', route: 'libreoffice' },
+  { extension: '.txt', mimeType: 'text/plain', route: 'libreoffice' },
+  { extension: '.csv', mimeType: 'text/csv', route: 'libreoffice' },
+  { extension: '.html', mimeType: 'text/html', route: 'chromium-html' },
+  { extension: '.htm', mimeType: 'text/html', route: 'chromium-html' },
+  { extension: '.md', mimeType: 'text/markdown', route: 'chromium-markdown' },
+  { extension: '.png', mimeType: 'image/png', route: 'image' },
+  { extension: '.jpg', mimeType: 'image/jpeg', route: 'image' },
+  { extension: '.jpeg', mimeType: 'image/jpeg', route: 'image' }
+];
+
+// Conversion options each route can honour
+const ROUTE_OPTIONS: Record<ConversionRoute, (keyof ConversionOptions)[]> = {
+  libreoffice: ['pageRanges', 'landscape', 'pdfa', 'pdfua', 'losslessImageCompression'],
+  'chromium-html': ['pageRanges', 'landscape', 'pdfa', 'pdfua'],
+  'chromium-markdown': ['pageRanges', 'landscape', 'pdfa', 'pdfua'],
+  image: []
+};
+
+/**
+ * Input formats enabled by ALLOWED_EXTENSIONS (comma-separated, e.g. `.docx,.odt`);
+ * all known formats when unset
+ */
+function loadEnabledFormats(): InputFormat[] {
+  const configured = (process.env.ALLOWED_EXTENSIONS || '')
+    .split(',')
+    .map(ext => ext.trim().toLowerCase())
+    .filter(ext => ext !== '')
+    .map(ext => (ext.startsWith('.') ? ext : `.${ext}`));
+  if (configured.length === 0) {
+    return INPUT_FORMATS;
+  }
+
+  const unknown = configured.filter(ext => !INPUT_FORMATS.some(format => format.extension === ext));
+  if (unknown.length > 0) {
+    logger.warn(`Ignoring ALLOWED_EXTENSIONS without a conversion route: ${unknown.join(', ')}`);
+  }
+  return INPUT_FORMATS.filter(format => configured.includes(format.extension));
+}
+
+const ENABLED_FORMATS = loadEnabledFormats();
+
+/**
+ * Extensions of the enabled input formats, including the dot
+ */
+export function allowedExtensions(): string[] {
+  return ENABLED_FORMATS.map(format => format.extension);
+}
+
+/**
+ * Look up the enabled input format of a file by its extension
+ * @param filename - Original filename
+ * @returns Input format, or undefined when the extension is not enabled
+ */
+export function findInputFormat(filename: string): InputFormat | undefined {
+  const extension = path.extname(filename).toLowerCase();
+  return ENABLED_FORMATS.find(format => format.extension === extension);
+}
+
+/**
+ * Look up an enabled input format by MIME type, e.g. a downloaded document's Content-Type
+ * @returns First enabled format with that MIME type, or undefined
+ */
+export function findInputFormatByMimeType(mimeType: string): InputFormat | undefined {
+  const normalized = mimeType.toLowerCase();
+  return ENABLED_FORMATS.find(format => format.mimeType === normalized);
+}
+
+/**
+ * Look up the enabled input format of a file that passed the upload filter
+ * @throws ValidationError if the extension is not enabled
+ */
+export function getInputFormat(filename: string): InputFormat {
+  const format = findInputFormat(filename);
+  if (!format) {
+    throw new ValidationError(`Invalid file type. Allowed types: ${allowedExtensions().join(', ')}`);
+  }
+  return format;
+}
+
+/**
+ * Check that the conversion route of a file supports the requested options
+ * @throws ValidationError if an option does not apply to the file's format
+ */
+export function checkInputOptions(filename: string, options: ConversionOptions): void {
+  const format = getInputFormat(filename);
+  const unsupported = (Object.keys(options) as (keyof ConversionOptions)[])
+    .filter(option => !ROUTE_OPTIONS[format.route].includes(option));
+  if (unsupported.length > 0) {
+    throw new ValidationError(`${unsupported.join(', ')} cannot be used with ${format.extension} files`);
+  }
+}
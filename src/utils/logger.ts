@@ -0,0 +1,96 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import axios from 'axios';
+import pino from 'pino';
+import { LogContext } from '../types';
+
+const LOG_LEVEL = process.env.LOG_LEVEL || 'info';
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Serialize errors without request configs or sockets, which can carry
+ * credentials and are too large to log (e.g. on axios errors)
+ */
+function serializeError(error: unknown): Record<string, unknown> {
+  if (!(error instanceof Error)) {
+    return { message: String(error) };
+  }
+
+  const serialized: Record<string, unknown> = {
+    type: error.name,
+    message: error.message,
+    stack: error.stack
+  };
+  if (axios.isAxiosError(error)) {
+    serialized.code = error.code;
+    serialized.status = error.response?.status;
+    serialized.url = error.config?.url?.split('?')[0];
+  } else if ('code' in error) {
+    serialized.code = (error as NodeJS.ErrnoException).code;
+  }
+  return serialized;
+}
+
+/**
+ * Structured JSON logger
+ * Every entry carries the correlation IDs (requestId, jobId, batchId, sub)
+ * of the request or job it was written from.
+ */
+const logger = pino({
+  level: LOG_LEVEL,
+  base: { service: process.env.SERVICE_NAME || 'document-conversion' },
+  timestamp: pino.stdTimeFunctions.isoTime,
+  formatters: {
+    level: (label) => ({ level: label })
+  },
+  mixin: () => ({ ...contextStorage.getStore() }),
+  serializers: {
+    err: serializeError
+  },
+  redact: {
+    paths: [
+      'token',
+      'authorization',
+      'headers.authorization',
+      'req.headers.authorization',
+      'callback.secret',
+      '*.callbackSecret',
+      'callbackSecret',
+      'password',
+      '*.password',
+      'encryptedPassword',
+      '*.encryptedPassword',
+      '*.ownerPassword',
+      '*.userPassword',
+      'headers["x-document-password"]',
+      'req.headers["x-document-password"]'
+    ],
+    censor: '[REDACTED]'
+  }
+});
+
+/**
+ * Run a function with correlation IDs attached to every log entry it writes
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...context }, fn);
+}
+
+/**
+ * Add correlation IDs to the current context, e.g. the user once authenticated
+ */
+export function addLogContext(context: Partial<LogContext>): void {
+  const store = contextStorage.getStore();
+  if (store) {
+    Object.assign(store, context);
+  }
+}
+
+/**
+ * Correlation IDs of the current request or job
+ */
+export function getLogContext(): LogContext {
+  return { ...contextStorage.getStore() };
+}
+
+export default logger;
@@ -0,0 +1,79 @@
+import dns from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+// Addresses outbound requests made on behalf of callers must not reach:
+// loopback, private, link-local (cloud metadata), shared and reserved ranges.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const NON_PUBLIC_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is outside the public internet
+ * @param address - IPv4 or IPv6 address; anything else counts as non-public
+ */
+export function isNonPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (!family) {
+    return true;
+  }
+  return NON_PUBLIC_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Host of a URL as an IP address, or undefined when it is a name
+ */
+export function hostAddress(url: URL): string | undefined {
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  return isIP(host) ? host : undefined;
+}
+
+/**
+ * DNS lookup for HTTP agents that fails when a name resolves to a non-public
+ * address. Checking the address the socket connects to, rather than the URL up
+ * front, also catches names that resolve differently between check and use.
+ * Sockets skip the lookup for IP addresses, so check those with isNonPublicAddress.
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    const blocked = addresses.find(({ address }) => isNonPublicAddress(address));
+    if (blocked) {
+      const refused: NodeJS.ErrnoException = new Error(`${hostname} resolves to a non-public address`);
+      refused.code = 'ENONPUBLIC';
+      callback(refused, '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
@@ -0,0 +1,97 @@
+import CFB from 'cfb';
+import fs from 'fs';
+import path from 'path';
+import { EngineInput } from '../types';
+import logger from './logger';
+
+// Compound File Binary header: legacy Office formats, and encrypted OOXML packages
+const CFB_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+const OOXML_TYPES = ['docx', 'pptx', 'xlsx'];
+
+// PowerPoint CurrentUserAtom header token of an encrypted presentation
+const PPT_ENCRYPTED_TOKEN = 0xf3d1c4df;
+// Excel FILEPASS and EOF record types
+const XLS_FILEPASS = 0x002f;
+const XLS_EOF = 0x000a;
+// Word FIB flag fEncrypted
+const DOC_ENCRYPTED_FLAG = 0x0100;
+
+/**
+ * Whether a file is a Compound File Binary container
+ */
+function isCompoundFile(data: Buffer): boolean {
+  return data.subarray(0, CFB_SIGNATURE.length).equals(CFB_SIGNATURE);
+}
+
+/**
+ * Whether an Office document needs a password to be opened
+ * @param data - Document contents
+ * @param type - File extension without the dot, e.g. `docx`
+ */
+export function isPasswordProtected(data: Buffer, type: string): boolean {
+  if (!isCompoundFile(data)) {
+    return false;
+  }
+  // Encrypted OOXML documents are wrapped in a compound file instead of a ZIP package
+  if (OOXML_TYPES.includes(type)) {
+    return true;
+  }
+  return isLegacyEncrypted(data, type);
+}
+
+/**
+ * Find a password-protected document among conversion inputs
+ * @returns Original name of the first password-protected document, or null
+ */
+export async function findPasswordProtected(files: EngineInput[]): Promise<string | null> {
+  for (const file of files) {
+    try {
+      const type = path.extname(file.originalName).toLowerCase().replace('.', '');
+      if (isPasswordProtected(await fs.promises.readFile(file.filePath), type)) {
+        return file.originalName;
+      }
+    } catch (error) {
+      logger.warn({ err: error }, `Could not check whether ${file.originalName} is password-protected`);
+    }
+  }
+  return null;
+}
+
+/**
+ * Check the encryption markers of legacy binary Office formats
+ */
+function isLegacyEncrypted(data: Buffer, type: string): boolean {
+  const container = CFB.read(data, { type: 'buffer' });
+  const stream = (name: string): Buffer | null => {
+    const entry = CFB.find(container, name);
+    return entry ? Buffer.from(entry.content) : null;
+  };
+
+  if (type === 'doc') {
+    const fib = stream('WordDocument');
+    return !!fib && fib.length >= 12 && (fib.readUInt16LE(0x0a) & DOC_ENCRYPTED_FLAG) !== 0;
+  }
+
+  if (type === 'ppt') {
+    const currentUser = stream('Current User');
+    return !!currentUser && currentUser.length >= 16 && currentUser.readUInt32LE(12) === PPT_ENCRYPTED_TOKEN;
+  }
+
+  if (type === 'xls') {
+    // FILEPASS follows the BOF record of the workbook globals substream
+    const workbook = stream('Workbook') ?? stream('Book');
+    for (let offset = 0; workbook && offset + 4 <= workbook.length;) {
+      const recordType = workbook.readUInt16LE(offset);
+      if (recordType === XLS_FILEPASS) {
+        return true;
+      }
+      if (recordType === XLS_EOF) {
+        break;
+      }
+      offset += 4 + workbook.readUInt16LE(offset + 2);
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,213 @@
+import { degrees, PDFDocument, PDFFont, PDFHexString, PDFImage, PDFName, PDFPage, PDFRef, rgb, StandardFonts } from 'pdf-lib';
+import { PageSize, PdfPart, PdfStamps, StampPosition, Watermark } from '../types';
+
+const STAMP_FONT_SIZE = 9;
+const WATERMARK_FONT_SIZE = 48;
+const STAMP_MARGIN = 24;
+const STAMP_COLOR = rgb(0.35, 0.35, 0.35);
+const A4_SIZE: PageSize = { width: 595.28, height: 841.89 };
+const IMAGE_PAGE_MARGIN = 36;
+
+/**
+ * Concatenate PDFs in order, optionally adding a top-level bookmark per part
+ * @param parts - PDFs to merge, each titled after its source document
+ * @param bookmarks - Add an outline entry pointing at the first page of each part
+ * @returns Merged PDF buffer
+ */
+export async function mergePdfs(parts: PdfPart[], bookmarks: boolean): Promise<Buffer> {
+  const merged = await PDFDocument.create();
+  const outline: { title: string; pageIndex: number }[] = [];
+
+  for (const part of parts) {
+    const source = await PDFDocument.load(part.data);
+    const pages = await merged.copyPages(source, source.getPageIndices());
+    if (pages.length === 0) {
+      continue;
+    }
+    outline.push({ title: part.title, pageIndex: merged.getPageCount() });
+    pages.forEach(page => merged.addPage(page));
+  }
+
+  if (bookmarks && outline.length > 0) {
+    addOutline(merged, outline);
+  }
+
+  return Buffer.from(await merged.save());
+}
+
+/**
+ * Wrap a PNG or JPEG image into a single A4 page, turned to match the image
+ * Images are centered and scaled down to fit within the page margins.
+ * @param data - Image file contents
+ * @returns PDF buffer
+ */
+export async function imageToPdf(data: Buffer): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  const image = await embedImage(doc, data);
+  const landscape = image.width > image.height;
+  const pageSize = landscape ? { width: A4_SIZE.height, height: A4_SIZE.width } : A4_SIZE;
+
+  const scale = Math.min(
+    1,
+    (pageSize.width - 2 * IMAGE_PAGE_MARGIN) / image.width,
+    (pageSize.height - 2 * IMAGE_PAGE_MARGIN) / image.height
+  );
+  const { width, height } = image.scale(scale);
+  const page = doc.addPage([pageSize.width, pageSize.height]);
+  page.drawImage(image, { x: (pageSize.width - width) / 2, y: (pageSize.height - height) / 2, width, height });
+
+  return Buffer.from(await doc.save());
+}
+
+/**
+ * Count the pages of a PDF
+ */
+export async function getPageCount(data: Buffer): Promise<number> {
+  const doc = await PDFDocument.load(data, { updateMetadata: false });
+  return doc.getPageCount();
+}
+
+/**
+ * Draw a watermark and header/footer stamps on every page
+ * `{date}`, `{page}` and `{pages}` in stamp text are replaced per page.
+ * @param data - PDF to stamp
+ * @param stamps - Watermark and stamp texts
+ * @returns Stamped PDF buffer
+ */
+export async function stampPdf(data: Buffer, stamps: PdfStamps): Promise<Buffer> {
+  const doc = await PDFDocument.load(data);
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const image = stamps.watermark?.image ? await embedImage(doc, Buffer.from(stamps.watermark.image, 'base64')) : undefined;
+  const date = new Date().toISOString().slice(0, 10);
+  const pages = doc.getPages();
+
+  pages.forEach((page, index) => {
+    const fill = (text: string): string => text
+      .replace(/\{date\}/g, date)
+      .replace(/\{page\}/g, String(index + 1))
+      .replace(/\{pages\}/g, String(pages.length));
+
+    if (stamps.watermark) {
+      drawWatermark(page, stamps.watermark, font, image, fill);
+    }
+    if (stamps.header) {
+      drawStamp(page, fill(stamps.header), font, 'top');
+    }
+    if (stamps.footer) {
+      drawStamp(page, fill(stamps.footer), font, 'bottom');
+    }
+  });
+
+  return Buffer.from(await doc.save());
+}
+
+/**
+ * Embed a PNG or JPEG image, told apart by its signature
+ */
+async function embedImage(doc: PDFDocument, data: Buffer): Promise<PDFImage> {
+  return data[0] === 0x89 ? await doc.embedPng(data) : await doc.embedJpg(data);
+}
+
+/**
+ * Draw a text or image watermark, rotated about its own center
+ * Images are scaled down to at most half the page width.
+ */
+function drawWatermark(
+  page: PDFPage,
+  watermark: Watermark,
+  font: PDFFont,
+  image: PDFImage | undefined,
+  fill: (text: string) => string
+): void {
+  const { width: pageWidth, height: pageHeight } = page.getSize();
+  const text = watermark.text ? fill(watermark.text) : '';
+  const size = image
+    ? image.scale(Math.min(1, pageWidth / 2 / image.width))
+    : { width: font.widthOfTextAtSize(text, WATERMARK_FONT_SIZE), height: font.heightAtSize(WATERMARK_FONT_SIZE, { descender: false }) };
+
+  const { x, y } = stampOrigin(watermark.position, size, { width: pageWidth, height: pageHeight });
+  // pdf-lib rotates about the origin, so move it to keep the center in place
+  const angle = (watermark.rotation * Math.PI) / 180;
+  const centerX = x + size.width / 2;
+  const centerY = y + size.height / 2;
+  const origin = {
+    x: centerX - (size.width / 2) * Math.cos(angle) + (size.height / 2) * Math.sin(angle),
+    y: centerY - (size.width / 2) * Math.sin(angle) - (size.height / 2) * Math.cos(angle)
+  };
+
+  if (image) {
+    page.drawImage(image, { ...origin, ...size, opacity: watermark.opacity, rotate: degrees(watermark.rotation) });
+  } else {
+    page.drawText(text, {
+      ...origin,
+      size: WATERMARK_FONT_SIZE,
+      font,
+      color: STAMP_COLOR,
+      opacity: watermark.opacity,
+      rotate: degrees(watermark.rotation)
+    });
+  }
+}
+
+/**
+ * Draw a header or footer line, centered within the page margin
+ */
+function drawStamp(page: PDFPage, text: string, font: PDFFont, edge: 'top' | 'bottom'): void {
+  const { width, height } = page.getSize();
+  const textWidth = font.widthOfTextAtSize(text, STAMP_FONT_SIZE);
+  page.drawText(text, {
+    x: (width - textWidth) / 2,
+    y: edge === 'top' ? height - STAMP_MARGIN : STAMP_MARGIN - STAMP_FONT_SIZE,
+    size: STAMP_FONT_SIZE,
+    font,
+    color: STAMP_COLOR
+  });
+}
+
+/**
+ * Lower-left corner of a box placed at a position on the page
+ */
+function stampOrigin(position: StampPosition, box: PageSize, page: PageSize): { x: number; y: number } {
+  const [vertical, horizontal = 'center'] = position === 'center' ? ['center'] : position.split('-');
+  const x = horizontal === 'left'
+    ? STAMP_MARGIN
+    : horizontal === 'right'
+      ? page.width - STAMP_MARGIN - box.width
+      : (page.width - box.width) / 2;
+  const y = vertical === 'top'
+    ? page.height - STAMP_MARGIN - box.height
+    : vertical === 'bottom'
+      ? STAMP_MARGIN
+      : (page.height - box.height) / 2;
+  return { x, y };
+}
+
+/**
+ * Write a flat document outline (bookmarks), which pdf-lib has no high-level API for
+ */
+function addOutline(doc: PDFDocument, entries: { title: string; pageIndex: number }[]): void {
+  const context = doc.context;
+  const outlineRef = context.nextRef();
+  const entryRefs: PDFRef[] = entries.map(() => context.nextRef());
+
+  entries.forEach((entry, i) => {
+    const item = context.obj({
+      Title: PDFHexString.fromText(entry.title),
+      Parent: outlineRef,
+      Dest: [doc.getPage(entry.pageIndex).ref, PDFName.of('Fit')],
+      ...(i > 0 ? { Prev: entryRefs[i - 1] } : {}),
+      ...(i < entries.length - 1 ? { Next: entryRefs[i + 1] } : {})
+    });
+    context.assign(entryRefs[i], item);
+  });
+
+  context.assign(outlineRef, context.obj({
+    Type: 'Outlines',
+    First: entryRefs[0],
+    Last: entryRefs[entryRefs.length - 1],
+    Count: entries.length
+  }));
+
+  doc.catalog.set(PDFName.of('Outlines'), outlineRef);
+  doc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
@@ -0,0 +1,48 @@
+import { PageText, TextBlock } from '../types';
+import { decodeXmlEntities } from './xml';
+
+const PAGE_PATTERN = /<page width="([\d.]+)" height="([\d.]+)">([\s\S]*?)<\/page>/g;
+const BLOCK_PATTERN = /<block xMin="([\d.]+)" yMin="([\d.]+)" xMax="([\d.]+)" yMax="([\d.]+)">([\s\S]*?)<\/block>/g;
+const LINE_PATTERN = /<line[^>]*>([\s\S]*?)<\/line>/g;
+const WORD_PATTERN = /<word[^>]*>([\s\S]*?)<\/word>/g;
+
+function round(value: string | number): number {
+  return Math.round(Number(value) * 100) / 100;
+}
+
+/**
+ * Parse the XHTML written by `pdftotext -bbox-layout` into per-page text blocks
+ * Coordinates are in PDF points from the top-left corner of the page.
+ * @param xhtml - pdftotext output
+ * @param pageNumbers - Page number reported for each page; defaults to 1..n
+ */
+export function parseBboxLayout(xhtml: string, pageNumbers?: number[]): PageText[] {
+  const pages: PageText[] = [];
+
+  for (const [, width, height, pageBody] of xhtml.matchAll(PAGE_PATTERN)) {
+    const blocks: TextBlock[] = [];
+
+    for (const [, xMin, yMin, xMax, yMax, blockBody] of pageBody.matchAll(BLOCK_PATTERN)) {
+      const lines = [...blockBody.matchAll(LINE_PATTERN)].map(([, lineBody]) =>
+        [...lineBody.matchAll(WORD_PATTERN)].map(([, word]) => decodeXmlEntities(word)).join(' ')
+      );
+
+      blocks.push({
+        x: round(xMin),
+        y: round(yMin),
+        width: round(Number(xMax) - Number(xMin)),
+        height: round(Number(yMax) - Number(yMin)),
+        text: lines.join('\n')
+      });
+    }
+
+    pages.push({
+      page: pageNumbers?.[pages.length] ?? pages.length + 1,
+      width: round(width),
+      height: round(height),
+      blocks
+    });
+  }
+
+  return pages;
+}
@@ -0,0 +1,128 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import { ImageOptions, RasterFormat, RasterScale } from '../types';
+import logger from './logger';
+
+// How often the image is measured while pdftoppm writes it
+const OUTPUT_CHECK_INTERVAL_MS = 250;
+// Most pdftoppm diagnostics kept; a run printing more is aborted
+const STDERR_MAX_BYTES = 64 * 1024;
+
+// Extensions pdftoppm appends to the output path
+const PDFTOPPM_EXTENSIONS: Record<Exclude<RasterFormat, 'webp'>, string> = {
+  png: '.png',
+  jpeg: '.jpg',
+  tiff: '.tif'
+};
+
+/**
+ * pdftoppm output device arguments
+ */
+function deviceArgs(format: Exclude<RasterFormat, 'webp'>, imageOptions: ImageOptions): string[] {
+  switch (format) {
+    case 'jpeg':
+      return imageOptions.quality ? ['-jpeg', '-jpegopt', `quality=${imageOptions.quality}`] : ['-jpeg'];
+    case 'tiff':
+      return imageOptions.compression ? ['-tiff', '-tiffcompression', imageOptions.compression] : ['-tiff'];
+    default:
+      return ['-png'];
+  }
+}
+
+/**
+ * pdftoppm scaling arguments; -1 keeps the aspect ratio
+ */
+function scaleArgs(scale: RasterScale): string[] {
+  if (scale.width || scale.height) {
+    return ['-scale-to-x', String(scale.width ?? -1), '-scale-to-y', String(scale.height ?? -1)];
+  }
+  return scale.dpi ? ['-r', String(scale.dpi)] : [];
+}
+
+/**
+ * Run pdftoppm without a shell, killing it when it runs past timeoutMs or its
+ * image grows past maxBytes
+ */
+function runPdftoppm(args: string[], imagePath: string, maxBytes: number, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let oversized = false;
+
+    const child = execFile(
+      'pdftoppm',
+      args,
+      { timeout: timeoutMs, killSignal: 'SIGKILL', maxBuffer: STDERR_MAX_BYTES },
+      (error, _stdout, stderr) => {
+        clearInterval(watcher);
+        if (oversized) {
+          reject(new Error('Rendered images exceeded the output size limit'));
+        } else if ((error as NodeJS.ErrnoException | null)?.code === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER') {
+          // Also sets `killed`, so it is told apart from a timeout first
+          reject(new Error(`pdftoppm wrote more than ${STDERR_MAX_BYTES} bytes of diagnostics`));
+        } else if (error?.killed) {
+          reject(new Error('Rendering the images exceeded the time limit'));
+        } else if (error) {
+          reject(error);
+        } else {
+          if (stderr) {
+            logger.warn({ stderr }, 'pdftoppm stderr');
+          }
+          resolve();
+        }
+      }
+    );
+
+    // pdftoppm writes the image as it renders, so it is measured while it runs
+    const watcher = setInterval(() => {
+      fs.stat(imagePath, (err, stats) => {
+        if (!err && stats.size > maxBytes && !oversized) {
+          oversized = true;
+          child.kill('SIGKILL');
+        }
+      });
+    }, OUTPUT_CHECK_INTERVAL_MS);
+  });
+}
+
+/**
+ * Render one page of a PDF with pdftoppm
+ * The image is removed again when rendering fails.
+ * @param outputPath - Output path without extension
+ * @param maxBytes - Largest image allowed
+ * @param timeoutMs - Longest pdftoppm may run
+ * @returns Path of the image
+ */
+export async function renderPage(
+  pdfPath: string,
+  page: number,
+  outputPath: string,
+  format: Exclude<RasterFormat, 'webp'>,
+  imageOptions: ImageOptions,
+  scale: RasterScale,
+  maxBytes: number,
+  timeoutMs: number
+): Promise<string> {
+  const imagePath = `${outputPath}${PDFTOPPM_EXTENSIONS[format]}`;
+  const args = [
+    ...deviceArgs(format, imageOptions),
+    '-f', String(page),
+    '-l', String(page),
+    '-singlefile',
+    ...scaleArgs(scale),
+    pdfPath,
+    outputPath
+  ];
+
+  logger.debug({ args }, 'Executing pdftoppm');
+  try {
+    await runPdftoppm(args, imagePath, maxBytes, timeoutMs);
+    // The image may have outgrown the limit after the last check
+    const { size } = await fs.promises.stat(imagePath);
+    if (size > maxBytes) {
+      throw new Error('Rendered images exceeded the output size limit');
+    }
+  } catch (error) {
+    await fs.promises.rm(imagePath, { force: true });
+    throw error;
+  }
+  return imagePath;
+}
@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import { PdfEncryption } from '../types';
+
+const JOB_SECRET_KEY = process.env.JOB_SECRET_KEY || '';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * 256-bit key derived from JOB_SECRET_KEY, shared by the API and the workers
+ */
+function secretKey(): Buffer {
+  if (!JOB_SECRET_KEY) {
+    throw new Error('JOB_SECRET_KEY is not configured');
+  }
+  return crypto.createHash('sha256').update(JOB_SECRET_KEY).digest();
+}
+
+/**
+ * Fail at startup rather than on the first request that carries a password
+ * @throws Error if JOB_SECRET_KEY is not set
+ */
+export function assertSecretKeyConfigured(): void {
+  secretKey();
+}
+
+/**
+ * Encrypt a secret (e.g. a document password) before it is stored in job data
+ * @returns Base64 of IV, auth tag and ciphertext
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, secretKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+/**
+ * Decrypt a secret written by encryptSecret
+ * @throws Error if the value was not encrypted with the configured key
+ */
+export function decryptSecret(encrypted: string): string {
+  const data = Buffer.from(encrypted, 'base64');
+  const decipher = crypto.createDecipheriv(ALGORITHM, secretKey(), data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Encrypt the passwords of output PDF encryption settings before they are stored in job data
+ */
+export function sealPdfEncryption(encryption: PdfEncryption): PdfEncryption {
+  return {
+    ...encryption,
+    ownerPassword: encryptSecret(encryption.ownerPassword),
+    userPassword: encryption.userPassword ? encryptSecret(encryption.userPassword) : undefined
+  };
+}
+
+/**
+ * Decrypt the passwords of output PDF encryption settings sealed with sealPdfEncryption
+ */
+export function openPdfEncryption(encryption: PdfEncryption): PdfEncryption {
+  return {
+    ...encryption,
+    ownerPassword: decryptSecret(encryption.ownerPassword),
+    userPassword: encryption.userPassword ? decryptSecret(encryption.userPassword) : undefined
+  };
+}
@@ -0,0 +1,117 @@
+import { Request, Response } from 'express';
+import { SseMessage } from '../types';
+import logger from './logger';
+
+const SSE_HEARTBEAT_MS = parseInt(process.env.SSE_HEARTBEAT_MS || '15000', 10);
+
+/**
+ * Switch a response into a Server-Sent Events stream
+ */
+export function openEventStream(res: Response): void {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  // Stop reverse proxies from buffering events
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+}
+
+/**
+ * Write a named event with a JSON payload to an SSE stream
+ */
+export function writeEvent(res: Response, message: SseMessage): void {
+  res.write(`event: ${message.event}\ndata: ${JSON.stringify(message.data)}\n\n`);
+}
+
+/**
+ * Serve an SSE stream fed by a subscription until a terminal message is sent
+ * or the client disconnects. The subscription is opened before the initial
+ * snapshot is read, and events arriving while it is read are replayed after
+ * it, so no transition in between is lost. A snapshot read in several steps
+ * may miss such a transition; toMessages should therefore be idempotent.
+ * @param subscribe - Registers a listener and returns its unsubscribe function
+ * @param snapshot - Current state as messages, or null when the subject does not exist
+ * @param toMessages - Maps a published event to messages; may be async, order is preserved
+ * @returns false when the subject does not exist and nothing was written
+ */
+export async function serveEventStream<T>(
+  req: Request,
+  res: Response,
+  subscribe: (listener: (event: T) => void) => Promise<() => Promise<void>>,
+  snapshot: () => Promise<SseMessage[] | null>,
+  toMessages: (event: T) => Promise<SseMessage[]>
+): Promise<boolean> {
+  let open = false;
+  let closed = false;
+  let heartbeat: NodeJS.Timeout | null = null;
+  let pending = Promise.resolve();
+  const early: T[] = [];
+
+  const send = (messages: SseMessage[]): void => {
+    for (const message of messages) {
+      if (closed) {
+        return;
+      }
+      writeEvent(res, message);
+      if (message.terminal) {
+        void close();
+      }
+    }
+  };
+
+  const enqueue = (event: T): void => {
+    pending = pending
+      .then(async () => send(await toMessages(event)))
+      .catch((error) => logger.error({ err: error }, 'Error writing SSE event'));
+  };
+
+  const unsubscribe = await subscribe((event: T) => {
+    if (closed) {
+      return;
+    }
+    // Held back until the snapshot has been sent
+    if (!open) {
+      early.push(event);
+      return;
+    }
+    enqueue(event);
+  });
+
+  const close = async (): Promise<void> => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    if (heartbeat) {
+      clearInterval(heartbeat);
+    }
+    await unsubscribe();
+    res.end();
+  };
+
+  try {
+    const initial = await snapshot();
+    if (!initial) {
+      closed = true;
+      await unsubscribe();
+      return false;
+    }
+
+    openEventStream(res);
+    open = true;
+    req.on('close', () => void close());
+    heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_MS);
+    send(initial);
+    early.splice(0).forEach(enqueue);
+    return true;
+  } catch (error) {
+    if (open) {
+      await close();
+    } else {
+      closed = true;
+      await unsubscribe();
+    }
+    throw error;
+  }
+}
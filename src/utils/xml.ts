@@ -0,0 +1,32 @@
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+/**
+ * Decode XML character and predefined entity references
+ */
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return String.fromCodePoint(value);
+    }
+    return ENTITIES[code] ?? entity;
+  });
+}
+
+/**
+ * Text content of the first element with the given (prefixed) tag name
+ * Only meant for small, flat documents such as OOXML document properties.
+ * @returns Decoded, trimmed text; undefined when the element is missing or empty
+ */
+export function readXmlElement(xml: string, tag: string): string | undefined {
+  const escaped = tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = xml.match(new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`));
+  const text = match ? decodeXmlEntities(match[1]).trim() : '';
+  return text === '' ? undefined : text;
+}
@@ -1,16 +1,38 @@
 import Queue, { Job } from 'bull';
 import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
 import conversionService from './services/conversionService';
 import storageService from './services/storageService';
 import queueService from './services/queueService';
+import webhookService from './services/webhookService';
+import metricsService from './services/metricsService';
+import inspectionService from './services/inspectionService';
+import resultCacheService from './services/resultCacheService';
 import dotenv from 'dotenv';
-import { JobData, ConversionResult } from './types';
+import {
+  JobData,
+  JobStatus,
+  ConversionResult,
+  LogContext,
+  OutputFormat,
+  MergeJobData,
+  PdfEncryption,
+  PdfStamps,
+  RasterFormat,
+  TextFormat,
+  WebhookDelivery
+} from './types';
+import { DocumentPasswordError, ValidationError } from './utils/errors';
+import logger, { runWithLogContext } from './utils/logger';
+import { assertSecretKeyConfigured, decryptSecret, openPdfEncryption } from './utils/secrets';
 
 dotenv.config();
 
 const REDIS_HOST = process.env.REDIS_HOST || 'redis';
 const REDIS_PORT = parseInt(process.env.REDIS_PORT || '6379', 10);
+const SCRATCH_DIR = process.env.WORKER_SCRATCH_DIR || os.tmpdir();
+const METRICS_PORT = parseInt(process.env.WORKER_METRICS_PORT || '9464', 10);
 
 // Queue configuration
 const redisConfig = {
@@ -22,16 +44,20 @@ const redisConfig = {
 
 let pngQueue: Queue.Queue;
 let pdfQueue: Queue.Queue;
+let mergeQueue: Queue.Queue;
+let webhookQueue: Queue.Queue;
 
 /**
- * Process PNG conversion job
+ * Process image conversion job (PNG, JPEG, WebP or TIFF)
  */
-async function processPNGConversion(job: Job<JobData>): Promise<ConversionResult> {
-  const { jobId, filePath, originalName, dpi, batchId } = job.data;
-  let pngFiles: string[] = [];
+async function processImageConversion(job: Job<JobData>): Promise<ConversionResult> {
+  const { jobId, inputObject, originalName, dpi, render, imageOptions, includeText, options, stamps, encryptedPassword, batchId } = job.data;
+  const format = (job.data.format ?? 'png') as RasterFormat;
+  let scratchDir: string | null = null;
+  const startedAt = Date.now();
 
   try {
-    console.log(`[Worker] Processing PNG job ${jobId}: ${originalName}`);
+    logger.info(`[Worker] Processing ${format.toUpperCase()} job ${jobId}: ${originalName}`);
 
     // Update status to processing
     await queueService.updateJobStatus(jobId, {
@@ -39,41 +65,92 @@ async function processPNGConversion(job: Job<JobData>): Promise<ConversionResult
       batchId,
       status: 'processing',
       originalName,
-      format: 'png',
+      format,
+      render,
+      imageOptions,
+      includeText,
+      options,
       progress: 10
     });
 
-    // Convert to PNG
-    job.progress(30);
-    pngFiles = await conversionService.convertToPNG(filePath, originalName, dpi || 150);
+    // Fetch source document
+    scratchDir = await createScratchDir(jobId);
+    const filePath = await fetchInput(inputObject, originalName, scratchDir);
+    const baseName = path.basename(originalName, path.extname(originalName));
+
+    // Complete from the result cache when an identical conversion is cached
+    const cacheKey = await resultCacheKey(job, filePath, format);
+    const fromCache = cacheKey
+      ? await completeFromCache(job, cacheKey, baseName, startedAt, {
+        jobId, batchId, originalName, format, render, imageOptions, includeText, options
+      })
+      : null;
+    if (fromCache) {
+      return fromCache;
+    }
+
+    // Convert to images, and extract text alongside when requested
+    await reportProgress(job, 30);
+    const textFile = includeText ? path.join(scratchDir, `${baseName}.txt`) : undefined;
+    const password = encryptedPassword ? decryptSecret(encryptedPassword) : undefined;
+    const { files: imageFiles, pdfPageCount, pdfSize } = await conversionService.convertToImages(
+      filePath,
+      originalName,
+      format,
+      dpi || 150,
+      options,
+      render,
+      imageOptions,
+      textFile,
+      password,
+      stamps
+    );
 
-    console.log(`[Worker] Generated ${pngFiles.length} PNG files for job ${jobId}`);
+    logger.info(`[Worker] Generated ${imageFiles.length} ${format.toUpperCase()} files for job ${jobId}`);
+
+    const partial = !!(options?.pageRanges || render?.pages || render?.thumbnail);
+    const pageCount = await documentPageCount(filePath, originalName, pdfPageCount, partial);
 
     // Upload to MinIO
-    job.progress(60);
+    await reportProgress(job, 60);
     let resultPath: string;
     let contentType: string;
     let filename: string;
 
-    if (pngFiles.length === 1) {
-      // Single file - upload directly
-      const pngFile = pngFiles[0];
-      const objectName = `${jobId}/${path.basename(pngFile)}`;
-      resultPath = await storageService.uploadFile(pngFile, objectName);
-      contentType = 'image/png';
-      filename = path.basename(pngFile);
+    if (imageFiles.length === 1) {
+      // Single file (or multi-page TIFF) - upload directly
+      const imageFile = imageFiles[0];
+      const objectName = `${jobId}/${path.basename(imageFile)}`;
+      resultPath = await storageService.uploadFile(imageFile, objectName);
+      contentType = conversionService.getContentType(format);
+      filename = path.basename(imageFile);
     } else {
       // Multiple files - create ZIP
-      const zipName = `${jobId}/${path.basename(originalName, path.extname(originalName))}.zip`;
-      resultPath = await storageService.uploadFilesAsZip(pngFiles, zipName);
+      const zipName = `${jobId}/${baseName}.zip`;
+      resultPath = await storageService.uploadFilesAsZip(imageFiles, zipName);
       contentType = 'application/zip';
       filename = path.basename(zipName);
     }
 
-    job.progress(90);
+    const textPath = textFile
+      ? await storageService.uploadFile(textFile, `${jobId}/${path.basename(textFile)}`)
+      : undefined;
 
-    // Get presigned URL for download
+    await reportProgress(job, 90);
+
+    // Get presigned URLs for download
     const downloadUrl = await storageService.getPresignedUrl(resultPath, 86400); // 24 hours
+    const textDownloadUrl = textPath ? await storageService.getPresignedUrl(textPath, 86400) : undefined;
+
+    if (cacheKey) {
+      await resultCacheService.store(cacheKey, { result: resultPath, text: textPath }, {
+        resultSuffix: filename.slice(baseName.length),
+        contentType,
+        fileCount: imageFiles.length,
+        pageCount,
+        pdfSize
+      });
+    }
 
     // Update status to completed
     await queueService.updateJobStatus(jobId, {
@@ -81,79 +158,273 @@ async function processPNGConversion(job: Job<JobData>): Promise<ConversionResult
       batchId,
       status: 'completed',
       originalName,
-      format: 'png',
+      format,
+      render,
+      imageOptions,
+      includeText,
+      options,
       progress: 100,
       resultPath,
       downloadUrl,
       contentType,
       filename,
-      fileCount: pngFiles.length,
+      fileCount: imageFiles.length,
+      pageCount,
+      pdfSize,
+      textPath,
+      textDownloadUrl,
+      cache: cacheKey ? 'miss' : undefined,
+      cacheKey,
       completedAt: new Date().toISOString()
     });
 
-    console.log(`[Worker] Completed PNG job ${jobId}`);
+    logger.info(`[Worker] Completed ${format.toUpperCase()} job ${jobId}`);
 
-    // Cleanup local files
-    await cleanupFiles(filePath, pngFiles);
+    await deleteInput(inputObject);
+    await notifyTerminalState(job);
+    metricsService.observeConversion(format, originalName, 'completed', (Date.now() - startedAt) / 1000);
 
-    return { jobId, status: 'completed', resultPath, fileCount: pngFiles.length };
+    return { jobId, status: 'completed', resultPath, fileCount: imageFiles.length };
   } catch (error) {
-    console.error(`[Worker] Error processing PNG job ${jobId}:`, error);
+    logger.error({ err: error }, `[Worker] Error processing ${format.toUpperCase()} job ${jobId}`);
+
+    // Only the last attempt fails the job; earlier ones go back to the queue
+    if (await isFinalAttempt(job, error)) {
+      await queueService.updateJobStatus(jobId, {
+        jobId,
+        batchId,
+        status: 'failed',
+        originalName,
+        format,
+        render,
+        imageOptions,
+        includeText,
+        options,
+        error: (error as Error).message,
+        errorCode: error instanceof DocumentPasswordError ? error.code : undefined,
+        failedAt: new Date().toISOString()
+      });
+
+      await deleteInput(inputObject);
+      await notifyTerminalState(job);
+      metricsService.observeConversion(format, originalName, 'failed', (Date.now() - startedAt) / 1000);
+    } else {
+      await queueService.updateJobStatus(jobId, {
+        jobId,
+        batchId,
+        status: 'queued',
+        originalName,
+        format,
+        render,
+        imageOptions,
+        includeText,
+        options,
+        progress: 0,
+        error: (error as Error).message
+      });
+    }
+
+    throw error;
+  } finally {
+    await cleanupScratchDir(scratchDir);
+  }
+}
+
+/**
+ * Process PDF conversion job, or text extraction from the converted PDF
+ */
+async function processPDFConversion(job: Job<JobData>): Promise<ConversionResult> {
+  const { jobId, inputObject, originalName, options, stamps, encryption, encryptedPassword, batchId } = job.data;
+  const format = (job.data.format ?? 'pdf') as 'pdf' | TextFormat;
+  let scratchDir: string | null = null;
+  const startedAt = Date.now();
+
+  try {
+    logger.info(`[Worker] Processing ${format.toUpperCase()} job ${jobId}: ${originalName}`);
+
+    // Update status to processing
+    await queueService.updateJobStatus(jobId, {
+      jobId,
+      batchId,
+      status: 'processing',
+      originalName,
+      format,
+      options,
+      progress: 10
+    });
+
+    // Fetch source document
+    scratchDir = await createScratchDir(jobId);
+    const filePath = await fetchInput(inputObject, originalName, scratchDir);
+    const baseName = path.basename(originalName, path.extname(originalName));
+
+    // Complete from the result cache when an identical conversion is cached
+    const cacheKey = await resultCacheKey(job, filePath, format);
+    const fromCache = cacheKey
+      ? await completeFromCache(job, cacheKey, baseName, startedAt, { jobId, batchId, originalName, format, options })
+      : null;
+    if (fromCache) {
+      return fromCache;
+    }
 
-    // Update status to failed
+    // Convert to PDF, streamed straight to the scratch directory
+    await reportProgress(job, 30);
+    const password = encryptedPassword ? decryptSecret(encryptedPassword) : undefined;
+    const pdfFilename = `${baseName}.pdf`;
+    const pdfPath = path.join(scratchDir, pdfFilename);
+    await conversionService.convertToPDFFile(filePath, originalName, pdfPath, options, password);
+
+    logger.info(`[Worker] Generated PDF for job ${jobId}`);
+    const pdfPageCount = await conversionService.getPdfPageCount(pdfPath);
+    const pageCount = await documentPageCount(filePath, originalName, pdfPageCount, !!options?.pageRanges);
+
+    // Stamp and encrypt the PDF when requested
+    await reportProgress(job, 60);
+    const pdfSize = await finishOutputPdf(pdfPath, stamps, encryption);
+
+    // Extract text from the PDF when that is the requested output
+    let resultFile = pdfPath;
+    if (format !== 'pdf') {
+      resultFile = path.join(scratchDir, path.basename(pdfFilename, '.pdf') + conversionService.getExtension(format));
+      await conversionService.extractText(pdfPath, format, resultFile);
+      logger.info(`[Worker] Extracted ${format} for job ${jobId}`);
+    }
+
+    // Upload to MinIO
+    const objectName = `${jobId}/${path.basename(resultFile)}`;
+    const resultPath = await storageService.uploadFile(resultFile, objectName);
+
+    await reportProgress(job, 90);
+
+    // Get presigned URL for download
+    const downloadUrl = await storageService.getPresignedUrl(resultPath, 86400); // 24 hours
+    const filename = path.basename(resultFile);
+    const contentType = conversionService.getContentType(format);
+
+    if (cacheKey) {
+      await resultCacheService.store(cacheKey, { result: resultPath }, {
+        resultSuffix: filename.slice(baseName.length),
+        contentType,
+        pageCount,
+        pdfSize
+      });
+    }
+
+    // Update status to completed
     await queueService.updateJobStatus(jobId, {
       jobId,
       batchId,
-      status: 'failed',
+      status: 'completed',
       originalName,
-      format: 'png',
-      error: (error as Error).message,
-      failedAt: new Date().toISOString()
+      format,
+      options,
+      progress: 100,
+      resultPath,
+      downloadUrl,
+      contentType,
+      filename,
+      pageCount,
+      pdfSize,
+      cache: cacheKey ? 'miss' : undefined,
+      cacheKey,
+      completedAt: new Date().toISOString()
     });
 
-    // Cleanup on error
-    await cleanupFiles(filePath, pngFiles);
+    logger.info(`[Worker] Completed ${format.toUpperCase()} job ${jobId}`);
+
+    await deleteInput(inputObject);
+    await notifyTerminalState(job);
+    metricsService.observeConversion(format, originalName, 'completed', (Date.now() - startedAt) / 1000);
+
+    return { jobId, status: 'completed', resultPath };
+  } catch (error) {
+    logger.error({ err: error }, `[Worker] Error processing ${format.toUpperCase()} job ${jobId}`);
+
+    // Only the last attempt fails the job; earlier ones go back to the queue
+    if (await isFinalAttempt(job, error)) {
+      await queueService.updateJobStatus(jobId, {
+        jobId,
+        batchId,
+        status: 'failed',
+        originalName,
+        format,
+        options,
+        error: (error as Error).message,
+        errorCode: error instanceof DocumentPasswordError ? error.code : undefined,
+        failedAt: new Date().toISOString()
+      });
+
+      await deleteInput(inputObject);
+      await notifyTerminalState(job);
+      metricsService.observeConversion(format, originalName, 'failed', (Date.now() - startedAt) / 1000);
+    } else {
+      await queueService.updateJobStatus(jobId, {
+        jobId,
+        batchId,
+        status: 'queued',
+        originalName,
+        format,
+        options,
+        progress: 0,
+        error: (error as Error).message
+      });
+    }
 
     throw error;
+  } finally {
+    await cleanupScratchDir(scratchDir);
   }
 }
 
 /**
- * Process PDF conversion job
+ * Process PDF merge job
  */
-async function processPDFConversion(job: Job<JobData>): Promise<ConversionResult> {
-  const { jobId, filePath, originalName, batchId } = job.data;
+async function processMergeConversion(job: Job<MergeJobData>): Promise<ConversionResult> {
+  const { jobId, sources, originalName, bookmarks, options, stamps, encryption, encryptedPassword } = job.data;
+  const sourceFiles = sources.map(source => source.originalName);
+  let scratchDir: string | null = null;
+  const startedAt = Date.now();
 
   try {
-    console.log(`[Worker] Processing PDF job ${jobId}: ${originalName}`);
+    logger.info(`[Worker] Processing merge job ${jobId}: ${sources.length} files into ${originalName}`);
 
     // Update status to processing
     await queueService.updateJobStatus(jobId, {
       jobId,
-      batchId,
       status: 'processing',
       originalName,
       format: 'pdf',
+      sourceFiles,
+      options,
       progress: 10
     });
 
-    // Convert to PDF
-    job.progress(30);
-    const pdfBuffer = await conversionService.convertToPDF(filePath, originalName);
+    // Fetch source documents, keeping their order
+    scratchDir = await createScratchDir(jobId);
+    const files: { filePath: string; originalName: string }[] = [];
+    for (const [index, source] of sources.entries()) {
+      const filePath = await fetchInput(source.inputObject, source.originalName, scratchDir, `source-${index + 1}`);
+      files.push({ filePath, originalName: source.originalName });
+    }
+
+    // Convert and merge
+    await reportProgress(job, 30);
+    const password = encryptedPassword ? decryptSecret(encryptedPassword) : undefined;
+    const pdfPath = path.join(scratchDir, originalName);
+    await conversionService.mergeToPDFFile(files, pdfPath, options, bookmarks, password);
 
-    console.log(`[Worker] Generated PDF for job ${jobId}`);
+    logger.info(`[Worker] Generated merged PDF for job ${jobId}`);
+    const pageCount = await conversionService.getPdfPageCount(pdfPath);
 
-    // Save PDF temporarily
-    job.progress(60);
-    const pdfFilename = path.basename(originalName, path.extname(originalName)) + '.pdf';
-    const pdfPath = path.join(path.dirname(filePath), `${jobId}_${pdfFilename}`);
-    await fs.writeFile(pdfPath, pdfBuffer);
+    // Stamp and encrypt the PDF when requested
+    await reportProgress(job, 60);
+    const pdfSize = await finishOutputPdf(pdfPath, stamps, encryption);
 
     // Upload to MinIO
-    const objectName = `${jobId}/${pdfFilename}`;
+    const objectName = `${jobId}/${originalName}`;
     const resultPath = await storageService.uploadFile(pdfPath, objectName);
 
-    job.progress(90);
+    await reportProgress(job, 90);
 
     // Get presigned URL for download
     const downloadUrl = await storageService.getPresignedUrl(resultPath, 86400); // 24 hours
@@ -161,58 +432,297 @@ async function processPDFConversion(job: Job<JobData>): Promise<ConversionResult
     // Update status to completed
     await queueService.updateJobStatus(jobId, {
       jobId,
-      batchId,
       status: 'completed',
       originalName,
       format: 'pdf',
+      sourceFiles,
+      options,
       progress: 100,
       resultPath,
       downloadUrl,
       contentType: 'application/pdf',
-      filename: pdfFilename,
+      filename: originalName,
+      pageCount,
+      pdfSize,
       completedAt: new Date().toISOString()
     });
 
-    console.log(`[Worker] Completed PDF job ${jobId}`);
+    logger.info(`[Worker] Completed merge job ${jobId}`);
 
-    // Cleanup local files
-    await cleanupFiles(filePath, [pdfPath]);
+    await deleteInputs(sources.map(source => source.inputObject));
+    await notifyTerminalState(job);
+    metricsService.observeConversion('merge', originalName, 'completed', (Date.now() - startedAt) / 1000);
 
-    return { jobId, status: 'completed', resultPath };
+    return { jobId, status: 'completed', resultPath, fileCount: sources.length };
   } catch (error) {
-    console.error(`[Worker] Error processing PDF job ${jobId}:`, error);
+    logger.error({ err: error }, `[Worker] Error processing merge job ${jobId}`);
+
+    // Only the last attempt fails the job; earlier ones go back to the queue
+    if (await isFinalAttempt(job, error)) {
+      await queueService.updateJobStatus(jobId, {
+        jobId,
+        status: 'failed',
+        originalName,
+        format: 'pdf',
+        sourceFiles,
+        options,
+        error: (error as Error).message,
+        errorCode: error instanceof DocumentPasswordError ? error.code : undefined,
+        failedAt: new Date().toISOString()
+      });
+
+      await deleteInputs(sources.map(source => source.inputObject));
+      await notifyTerminalState(job);
+      metricsService.observeConversion('merge', originalName, 'failed', (Date.now() - startedAt) / 1000);
+    } else {
+      await queueService.updateJobStatus(jobId, {
+        jobId,
+        status: 'queued',
+        originalName,
+        format: 'pdf',
+        sourceFiles,
+        options,
+        progress: 0,
+        error: (error as Error).message
+      });
+    }
 
-    // Update status to failed
-    await queueService.updateJobStatus(jobId, {
-      jobId,
-      batchId,
-      status: 'failed',
-      originalName,
-      format: 'pdf',
-      error: (error as Error).message,
-      failedAt: new Date().toISOString()
-    });
+    throw error;
+  } finally {
+    await cleanupScratchDir(scratchDir);
+  }
+}
 
-    // Cleanup on error
-    await cleanupFiles(filePath, []);
+/**
+ * Correlation IDs of a job, linking worker logs back to the originating request
+ */
+function jobLogContext(job: Job<JobData | MergeJobData>): LogContext {
+  const { jobId, batchId, requestId, sub } = job.data;
+  return { jobId, batchId, requestId, sub };
+}
 
-    throw error;
+/**
+ * Report progress to Bull and to the job status so live subscribers see it
+ */
+async function reportProgress(job: Job<JobData | MergeJobData>, progress: number): Promise<void> {
+  await job.progress(progress);
+  try {
+    await queueService.updateJobProgress(job.data.jobId, progress);
+  } catch (error) {
+    logger.error({ err: error }, `[Worker] Error reporting progress for job ${job.data.jobId}`);
+  }
+}
+
+/**
+ * Total page count of the source document
+ * When only some pages were converted the PDF does not tell, so the count
+ * stored in the document itself is used when there is one.
+ * @param pdfPageCount - Pages in the converted PDF
+ * @param partial - Whether only some pages were converted
+ */
+async function documentPageCount(
+  filePath: string,
+  originalName: string,
+  pdfPageCount: number,
+  partial: boolean
+): Promise<number | undefined> {
+  if (!partial) {
+    return pdfPageCount;
+  }
+
+  try {
+    return (await inspectionService.readMetadata(filePath, originalName)).pageCount;
+  } catch (error) {
+    logger.warn({ err: error }, `[Worker] Could not read page count of ${originalName}`);
+    return undefined;
+  }
+}
+
+/**
+ * Result cache key of a job, or undefined when its result must not be shared
+ * Results of password-protected sources are never cached, as a matching hash does
+ * not prove the caller knows the password; encrypted output embeds the caller's
+ * own passwords.
+ */
+async function resultCacheKey(job: Job<JobData>, filePath: string, format: OutputFormat): Promise<string | undefined> {
+  const { originalName, dpi, render, imageOptions, includeText, options, stamps, encryption, encryptedPassword } = job.data;
+  if (!resultCacheService.isEnabled() || encryptedPassword || encryption) {
+    return undefined;
+  }
+
+  // Stamps with {date} render differently from one day to the next
+  const date = stamps && JSON.stringify(stamps).includes('{date}') ? new Date().toISOString().slice(0, 10) : undefined;
+  return await resultCacheService.computeKey(filePath, {
+    input: path.extname(originalName).toLowerCase(),
+    format,
+    dpi,
+    render,
+    imageOptions,
+    includeText,
+    options,
+    stamps,
+    date
+  });
+}
+
+/**
+ * Complete a job with the cached result of an identical conversion
+ * @param baseName - Source document name without extension, used to name the result
+ * @param status - Job status fields describing the request
+ * @returns Conversion result, or null when no usable result is cached
+ */
+async function completeFromCache(
+  job: Job<JobData>,
+  cacheKey: string,
+  baseName: string,
+  startedAt: number,
+  status: Omit<JobStatus, 'status' | 'progress'>
+): Promise<ConversionResult | null> {
+  const { jobId, inputObject, originalName } = job.data;
+  const cached = await resultCacheService.lookup(cacheKey);
+  const copied = cached ? await resultCacheService.copyToJob(cacheKey, cached, jobId, baseName) : null;
+  if (!cached || !copied) {
+    return null;
+  }
+
+  const downloadUrl = await storageService.getPresignedUrl(copied.resultPath, 86400); // 24 hours
+  const textDownloadUrl = copied.textPath ? await storageService.getPresignedUrl(copied.textPath, 86400) : undefined;
+
+  await queueService.updateJobStatus(jobId, {
+    ...status,
+    status: 'completed',
+    progress: 100,
+    resultPath: copied.resultPath,
+    downloadUrl,
+    contentType: cached.contentType,
+    filename: copied.filename,
+    fileCount: cached.fileCount,
+    pageCount: cached.pageCount,
+    pdfSize: cached.pdfSize,
+    textPath: copied.textPath,
+    textDownloadUrl,
+    cache: 'hit',
+    cacheKey,
+    completedAt: new Date().toISOString()
+  });
+
+  logger.info(`[Worker] Completed ${status.format.toUpperCase()} job ${jobId} from the result cache`);
+
+  await deleteInput(inputObject);
+  await notifyTerminalState(job);
+  metricsService.observeConversion(status.format, originalName, 'completed', (Date.now() - startedAt) / 1000);
+
+  return { jobId, status: 'completed', resultPath: copied.resultPath, fileCount: cached.fileCount };
+}
+
+/**
+ * Apply stamps and encryption to a converted PDF in place, when requested
+ * Stamping loads the document into memory; encryption runs in qpdf on the file.
+ * @param encryption - Output encryption with passwords as stored in job data
+ * @returns Size of the final PDF in bytes
+ */
+async function finishOutputPdf(pdfPath: string, stamps?: PdfStamps, encryption?: PdfEncryption): Promise<number> {
+  if (stamps) {
+    await fs.writeFile(pdfPath, await conversionService.stampPDF(await fs.readFile(pdfPath), stamps));
+  }
+  if (encryption) {
+    await conversionService.encryptPDF(pdfPath, openPdfEncryption(encryption));
+  }
+  return (await fs.stat(pdfPath)).size;
+}
+
+/**
+ * Create a private scratch directory for a single job attempt
+ */
+async function createScratchDir(jobId: string): Promise<string> {
+  return await fs.mkdtemp(path.join(SCRATCH_DIR, `job-${jobId}-`));
+}
+
+/**
+ * Download a staged source document into the job's scratch directory
+ * @param localName - Local filename without extension, unique within the job
+ * @returns Local path of the source document
+ */
+async function fetchInput(
+  inputObject: string,
+  originalName: string,
+  scratchDir: string,
+  localName = 'source'
+): Promise<string> {
+  const filePath = path.join(scratchDir, `${localName}${path.extname(originalName).toLowerCase()}`);
+  await storageService.downloadToFile(inputObject, filePath);
+  return filePath;
+}
+
+/**
+ * Whether a failure of this attempt leaves the job permanently failed
+ * Password and validation errors recur on every attempt, so the remaining retries are discarded.
+ */
+async function isFinalAttempt(job: Job<JobData | MergeJobData>, error: unknown): Promise<boolean> {
+  if (error instanceof DocumentPasswordError || error instanceof ValidationError) {
+    await job.discard();
+    return true;
+  }
+  return job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+}
+
+/**
+ * Remove the staged source document once the job reached a terminal state
+ */
+async function deleteInput(inputObject: string): Promise<void> {
+  try {
+    await storageService.deleteFile(inputObject);
+  } catch (error) {
+    logger.error({ err: error }, `[Worker] Error deleting input ${inputObject}`);
+  }
+}
+
+/**
+ * Remove the staged source documents of a job that reached a terminal state
+ */
+async function deleteInputs(inputObjects: string[]): Promise<void> {
+  for (const inputObject of inputObjects) {
+    await deleteInput(inputObject);
   }
 }
 
 /**
- * Cleanup temporary files
+ * Queue webhooks for a job, and its batch, once the job reached a terminal state
+ * Delivery problems are logged but never fail the conversion job itself.
  */
-async function cleanupFiles(originalFile: string, additionalFiles: string[] = []): Promise<void> {
-  const filesToDelete = [originalFile, ...additionalFiles].filter(Boolean);
-
-  for (const file of filesToDelete) {
-    try {
-      await fs.unlink(file);
-      console.log(`[Worker] Deleted temp file: ${file}`);
-    } catch (error) {
-      console.error(`[Worker] Error deleting ${file}:`, (error as Error).message);
+async function notifyTerminalState(job: Job<JobData | MergeJobData>): Promise<void> {
+  const { jobId, batchId, callback } = job.data;
+
+  try {
+    if (callback) {
+      const jobStatus = await queueService.getJobStatus(jobId);
+      if (jobStatus) {
+        await webhookService.notifyJob(callback, jobStatus);
+      }
     }
+
+    if (batchId) {
+      const batchStatus = await queueService.getBatchStatus(batchId);
+      await webhookService.notifyBatch(batchStatus);
+    }
+  } catch (error) {
+    logger.error({ err: error }, `[Worker] Error queueing webhooks for job ${jobId}`);
+  }
+}
+
+/**
+ * Remove a job's scratch directory and everything in it
+ */
+async function cleanupScratchDir(scratchDir: string | null): Promise<void> {
+  if (!scratchDir) {
+    return;
+  }
+
+  try {
+    await fs.rm(scratchDir, { recursive: true, force: true });
+    logger.info(`[Worker] Deleted scratch dir: ${scratchDir}`);
+  } catch (error) {
+    logger.error({ err: error }, `[Worker] Error deleting ${scratchDir}`);
   }
 }
 
@@ -221,80 +731,121 @@ async function cleanupFiles(originalFile: string, additionalFiles: string[] = []
  */
 async function startWorker(): Promise<void> {
   try {
-    console.log('='.repeat(60));
-    console.log('Document Conversion Worker Starting...');
-    console.log('='.repeat(60));
+    logger.info('Document Conversion Worker Starting...');
+
+    // API and workers share the key that seals passwords in job data
+    assertSecretKeyConfigured();
 
     // Initialize services
     await storageService.initialize();
     await queueService.initialize();
+    await webhookService.initialize();
+    await resultCacheService.initialize();
 
     // Create queue processors
     pngQueue = new Queue('png-conversion', redisConfig);
     pdfQueue = new Queue('pdf-conversion', redisConfig);
+    mergeQueue = new Queue('merge-conversion', redisConfig);
+    webhookQueue = new Queue('webhook-delivery', redisConfig);
 
-    // Process PNG conversion jobs
+    // Process image conversion jobs (every raster format shares the PNG queue)
     pngQueue.process(async (job: Job<JobData>) => {
-      return await processPNGConversion(job);
+      return await runWithLogContext(jobLogContext(job), () => processImageConversion(job));
     });
 
     // Process PDF conversion jobs
     pdfQueue.process(async (job: Job<JobData>) => {
-      return await processPDFConversion(job);
+      return await runWithLogContext(jobLogContext(job), () => processPDFConversion(job));
+    });
+
+    // Process PDF merge jobs
+    mergeQueue.process(async (job: Job<MergeJobData>) => {
+      return await runWithLogContext(jobLogContext(job), () => processMergeConversion(job));
+    });
+
+    // Deliver webhooks
+    webhookQueue.process(async (job: Job<WebhookDelivery>) => {
+      await webhookService.deliver(job.data, job.attemptsMade + 1);
     });
 
     // Queue event handlers
     pngQueue.on('completed', (job: Job, result: ConversionResult) => {
-      console.log(`[PNG Queue] Job ${job.id} completed:`, result);
+      logger.info({ result }, `[PNG Queue] Job ${job.id} completed`);
     });
 
     pngQueue.on('failed', (job: Job, err: Error) => {
-      console.error(`[PNG Queue] Job ${job.id} failed:`, err.message);
+      logger.error({ err }, `[PNG Queue] Job ${job.id} failed`);
     });
 
     pngQueue.on('stalled', (job: Job) => {
-      console.warn(`[PNG Queue] Job ${job.id} stalled`);
+      logger.warn(`[PNG Queue] Job ${job.id} stalled`);
     });
 
     pdfQueue.on('completed', (job: Job, result: ConversionResult) => {
-      console.log(`[PDF Queue] Job ${job.id} completed:`, result);
+      logger.info({ result }, `[PDF Queue] Job ${job.id} completed`);
     });
 
     pdfQueue.on('failed', (job: Job, err: Error) => {
-      console.error(`[PDF Queue] Job ${job.id} failed:`, err.message);
+      logger.error({ err }, `[PDF Queue] Job ${job.id} failed`);
     });
 
     pdfQueue.on('stalled', (job: Job) => {
-      console.warn(`[PDF Queue] Job ${job.id} stalled`);
+      logger.warn(`[PDF Queue] Job ${job.id} stalled`);
+    });
+
+    mergeQueue.on('completed', (job: Job, result: ConversionResult) => {
+      logger.info({ result }, `[Merge Queue] Job ${job.id} completed`);
+    });
+
+    mergeQueue.on('failed', (job: Job, err: Error) => {
+      logger.error({ err }, `[Merge Queue] Job ${job.id} failed`);
+    });
+
+    mergeQueue.on('stalled', (job: Job) => {
+      logger.warn(`[Merge Queue] Job ${job.id} stalled`);
     });
 
-    console.log('Worker is ready and listening for jobs...');
-    console.log('Press Ctrl+C to stop');
-    console.log('='.repeat(60));
+    webhookQueue.on('failed', (job: Job, err: Error) => {
+      logger.error({ err }, `[Webhook Queue] Delivery ${job.id} failed`);
+    });
+
+    metricsService.startServer(METRICS_PORT);
+
+    logger.info('Worker is ready and listening for jobs...');
   } catch (error) {
-    console.error('Failed to start worker:', error);
+    logger.error({ err: error }, 'Failed to start worker');
     process.exit(1);
   }
 }
 
 // Graceful shutdown
 async function shutdown(): Promise<void> {
-  console.log('\nShutting down worker...');
+  logger.info('Shutting down worker...');
   
   try {
     if (pngQueue) {
       await pngQueue.close();
-      console.log('PNG queue closed');
+      logger.info('PNG queue closed');
     }
     if (pdfQueue) {
       await pdfQueue.close();
-      console.log('PDF queue closed');
+      logger.info('PDF queue closed');
+    }
+    if (mergeQueue) {
+      await mergeQueue.close();
+      logger.info('Merge queue closed');
+    }
+    if (webhookQueue) {
+      await webhookQueue.close();
+      logger.info('Webhook queue closed');
     }
+    await webhookService.close();
+    await resultCacheService.close();
     await queueService.close();
-    console.log('Worker shutdown complete');
+    logger.info('Worker shutdown complete');
     process.exit(0);
   } catch (error) {
-    console.error('Error during shutdown:', error);
+    logger.error({ err: error }, 'Error during shutdown');
     process.exit(1);
   }
 }
@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'path';
+import { makeTempDir, readBody, removeTempDir, startServer, StubServer } from './support/stubs';
+
+// Two 1500-byte pages of the stub pdftoppm fit, a third does not
+const MAX_OUTPUT_BYTES = 3000;
+
+describe('conversionService.convertToImages', () => {
+  let workDir: string;
+  let gotenberg: StubServer;
+  let conversionService: typeof import('../src/services/conversionService').default;
+
+  beforeAll(async () => {
+    // Answers with a "PDF" repeating the document it was made from, which
+    // tells the stub poppler tools in test/support/bin what to do
+    gotenberg = await startServer(async (req, res) => {
+      const marker = /CONTENT-[\w=-]+/.exec(await readBody(req))?.[0] ?? 'unknown';
+      setTimeout(() => {
+        res.setHeader('Content-Type', 'application/pdf');
+        res.end(`%PDF-stub ${marker}`);
+      }, 100);
+    });
+
+    process.env.GOTENBERG_URLS = gotenberg.url;
+    process.env.PDFTOPPM_TIMEOUT_MS = '1000';
+    process.env.PDFTOPPM_MAX_OUTPUT_BYTES = String(MAX_OUTPUT_BYTES);
+    conversionService = (await import('../src/services/conversionService')).default;
+  });
+
+  afterAll(async () => {
+    await gotenberg.close();
+  });
+
+  beforeEach(() => {
+    workDir = makeTempDir('convert-images-');
+  });
+
+  afterEach(() => {
+    removeTempDir(workDir);
+  });
+
+  /**
+   * Stage a document the way the worker does, in a scratch directory of its own
+   */
+  function stageJob(name: string, content: string): string {
+    const scratchDir = path.join(workDir, name);
+    fs.mkdirSync(scratchDir);
+    const filePath = path.join(scratchDir, 'source.pptx');
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  it('keeps the pages of identically named jobs running in parallel apart', async () => {
+    const first = stageJob('job-1', 'CONTENT-first');
+    const second = stageJob('job-2', 'CONTENT-second');
+
+    const [a, b] = await Promise.all([
+      conversionService.convertToImages(first, 'report.pptx'),
+      conversionService.convertToImages(second, 'report.pptx')
+    ]);
+
+    expect(a.files).toEqual([
+      path.join(workDir, 'job-1', 'report-1.png'),
+      path.join(workDir, 'job-1', 'report-2.png')
+    ]);
+    expect(b.files).toEqual([
+      path.join(workDir, 'job-2', 'report-1.png'),
+      path.join(workDir, 'job-2', 'report-2.png')
+    ]);
+    expect(a.files.map(file => fs.readFileSync(file, 'utf8'))).toEqual([
+      'page 1 of %PDF-stub CONTENT-first',
+      'page 2 of %PDF-stub CONTENT-first'
+    ]);
+    expect(b.files.map(file => fs.readFileSync(file, 'utf8'))).toEqual([
+      'page 1 of %PDF-stub CONTENT-second',
+      'page 2 of %PDF-stub CONTENT-second'
+    ]);
+
+    // The intermediate PDFs and render directories are gone
+    expect(fs.readdirSync(path.join(workDir, 'job-1')).sort()).toEqual(['report-1.png', 'report-2.png', 'source.pptx']);
+    expect(fs.readdirSync(path.join(workDir, 'job-2')).sort()).toEqual(['report-1.png', 'report-2.png', 'source.pptx']);
+  });
+
+  it('kills pdftoppm after the timeout and cleans up', async () => {
+    const filePath = stageJob('job', 'CONTENT-slow');
+
+    await expect(conversionService.convertToImages(filePath, 'report.pptx')).rejects.toThrow(/exceeded the time limit/);
+    expect(fs.readdirSync(path.dirname(filePath))).toEqual(['source.pptx']);
+  });
+
+  it('limits the rendering time of all pages together', async () => {
+    // Every page renders in 200ms, well within the limit, but ten do not
+    const filePath = stageJob('job', 'CONTENT-pages=10');
+    const startedAt = Date.now();
+
+    await expect(conversionService.convertToImages(filePath, 'report.pptx')).rejects.toThrow(/exceeded the time limit/);
+    expect(Date.now() - startedAt).toBeLessThan(2000);
+    expect(fs.readdirSync(path.dirname(filePath))).toEqual(['source.pptx']);
+  });
+
+  it('reports overflowing diagnostics as such rather than as a timeout', async () => {
+    const filePath = stageJob('job', 'CONTENT-noisy');
+
+    const conversion = conversionService.convertToImages(filePath, 'report.pptx');
+    await expect(conversion).rejects.toThrow(/bytes of diagnostics/);
+    await expect(conversion).rejects.not.toThrow(/time limit/);
+  });
+
+  it('limits the total size of the images of one job', async () => {
+    const fits = await conversionService.convertToImages(stageJob('two-pages', 'CONTENT-large'), 'report.pptx');
+    expect(fits.files).toHaveLength(2);
+
+    const filePath = stageJob('three-pages', 'CONTENT-large-pages=3');
+    await expect(conversionService.convertToImages(filePath, 'report.pptx')).rejects.toThrow(/output size limit/);
+    expect(fs.readdirSync(path.dirname(filePath))).toEqual(['source.pptx']);
+  });
+});
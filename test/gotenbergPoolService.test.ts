@@ -0,0 +1,227 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { makeTempDir, readBody, removeTempDir, startServer, StubServer } from './support/stubs';
+
+type Pool = typeof import('../src/services/gotenbergPoolService').default;
+type Engine = typeof import('../src/services/gotenbergEngine').default;
+
+// How a stub instance answers: converting, failing with 503, hanging past
+// the timeout, or rejecting the document with 400
+type Behaviour = 'ok' | 'error' | 'hang' | 'reject';
+
+interface StubGotenberg extends StubServer {
+  behaviour: Behaviour;
+  conversions: number;
+}
+
+/**
+ * Start a stub Gotenberg instance that names itself in the PDFs it returns
+ */
+async function startGotenberg(name: string): Promise<StubGotenberg> {
+  const stub = { behaviour: 'ok', conversions: 0 } as StubGotenberg;
+  const server = await startServer(async (req, res) => {
+    await readBody(req);
+    if (req.url === '/health') {
+      res.statusCode = stub.behaviour === 'ok' ? 200 : 503;
+      res.end();
+      return;
+    }
+
+    stub.conversions++;
+    switch (stub.behaviour) {
+      case 'hang':
+        return;
+      case 'error':
+        res.statusCode = 503;
+        res.end('LibreOffice crashed');
+        return;
+      case 'reject':
+        res.statusCode = 400;
+        res.end('Malformed document');
+        return;
+      default:
+        res.setHeader('Content-Type', 'application/pdf');
+        res.end(`%PDF-${name}`);
+    }
+  });
+  return Object.assign(stub, server);
+}
+
+/**
+ * Load the pool and the engine with fresh state, read from the given environment
+ */
+async function load(env: Record<string, string>): Promise<{ pool: Pool; engine: Engine }> {
+  Object.assign(process.env, env);
+  let loaded: { pool: Pool; engine: Engine } | undefined;
+  await jest.isolateModulesAsync(async () => {
+    loaded = {
+      pool: (await import('../src/services/gotenbergPoolService')).default,
+      engine: (await import('../src/services/gotenbergEngine')).default
+    };
+  });
+  return loaded as { pool: Pool; engine: Engine };
+}
+
+async function readText(stream: Readable): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) {
+    text += String(chunk);
+  }
+  return text;
+}
+
+describe('Gotenberg instance pool', () => {
+  let first: StubGotenberg;
+  let second: StubGotenberg;
+  let third: StubGotenberg;
+  let workDir: string;
+  let document: { filePath: string; originalName: string };
+
+  beforeAll(async () => {
+    [first, second, third] = await Promise.all([startGotenberg('first'), startGotenberg('second'), startGotenberg('third')]);
+    workDir = makeTempDir('gotenberg-pool-');
+    document = { filePath: path.join(workDir, 'report.docx'), originalName: 'report.docx' };
+    fs.writeFileSync(document.filePath, 'document');
+  });
+
+  afterAll(async () => {
+    await Promise.all([first.close(), second.close(), third.close()]);
+    removeTempDir(workDir);
+  });
+
+  beforeEach(() => {
+    for (const stub of [first, second, third]) {
+      stub.behaviour = 'ok';
+      stub.conversions = 0;
+    }
+  });
+
+  /**
+   * Convert the test document and read the name of the instance that converted it
+   */
+  async function convert(engine: Engine): Promise<string> {
+    const { stream } = await engine.convertToPDF('libreoffice', document, {});
+    return (await readText(stream)).replace('%PDF-', '');
+  }
+
+  describe('selection', () => {
+    it('sends requests to the instance with the fewest outstanding', async () => {
+      const { pool } = await load({
+        GOTENBERG_URLS: [first.url, second.url, third.url].join(','),
+        GOTENBERG_BALANCING: 'least-outstanding'
+      });
+
+      expect([pool.acquire(), pool.acquire(), pool.acquire()]).toEqual([first.url, second.url, third.url]);
+      pool.release(second.url);
+      expect(pool.acquire()).toBe(second.url);
+      pool.release(first.url);
+      pool.release(third.url);
+      expect(pool.acquire()).toBe(third.url);
+      expect(pool.getStats().map(instance => instance.outstanding)).toEqual([0, 1, 1]);
+    });
+
+    it('sends requests to each instance in turn with round-robin', async () => {
+      const { pool } = await load({
+        GOTENBERG_URLS: [first.url, second.url, third.url].join(','),
+        GOTENBERG_BALANCING: 'round-robin'
+      });
+
+      expect([pool.acquire(), pool.acquire(), pool.acquire()]).toEqual([first.url, second.url, third.url]);
+      pool.release(second.url);
+      expect(pool.acquire()).toBe(first.url);
+      expect(pool.getStats().map(instance => instance.outstanding)).toEqual([2, 0, 1]);
+    });
+
+    it('skips instances already tried for a request', async () => {
+      const { pool } = await load({
+        GOTENBERG_URLS: [first.url, second.url].join(','),
+        GOTENBERG_BALANCING: 'least-outstanding'
+      });
+
+      expect(pool.acquire([first.url])).toBe(second.url);
+      expect(() => pool.acquire([first.url, second.url])).toThrow('No other Gotenberg instance is available');
+    });
+  });
+
+  describe('circuit breaking', () => {
+    const env = {
+      GOTENBERG_BALANCING: 'least-outstanding',
+      GOTENBERG_FAILURE_THRESHOLD: '2',
+      GOTENBERG_MAX_ATTEMPTS: '2',
+      GOTENBERG_TIMEOUT_MS: '300',
+      GOTENBERG_PROBE_INTERVAL_MS: '60000'
+    };
+
+    it('fails over on 5xx responses and takes the instance out of rotation at the threshold', async () => {
+      const { pool, engine } = await load({ ...env, GOTENBERG_URLS: [first.url, second.url].join(',') });
+      first.behaviour = 'error';
+
+      // Every conversion succeeds on the second instance
+      for (let i = 0; i < 4; i++) {
+        expect(await convert(engine)).toBe('second');
+      }
+
+      // Only the first two reached the failing instance before its circuit opened
+      expect(first.conversions).toBe(2);
+      expect(second.conversions).toBe(4);
+      const [failing, healthy] = pool.getStats();
+      expect(failing).toMatchObject({ circuit: 'open', failures: 2, lastError: 'Request failed with status code 503' });
+      expect(healthy).toMatchObject({ circuit: 'closed', failures: 0, requests: 4, outstanding: 0 });
+    });
+
+    it('counts timeouts against the instance', async () => {
+      const { pool, engine } = await load({ ...env, GOTENBERG_URLS: [first.url, second.url].join(',') });
+      first.behaviour = 'hang';
+
+      for (let i = 0; i < 3; i++) {
+        expect(await convert(engine)).toBe('second');
+      }
+
+      expect(first.conversions).toBe(2);
+      expect(pool.getStats()[0]).toMatchObject({ circuit: 'open', failures: 2, lastError: 'timeout of 300ms exceeded' });
+    });
+
+    it('does not count rejected documents against the instance or retry them', async () => {
+      const { pool, engine } = await load({ ...env, GOTENBERG_URLS: [first.url, second.url].join(',') });
+      first.behaviour = 'reject';
+      second.behaviour = 'reject';
+
+      for (let i = 0; i < 3; i++) {
+        await expect(convert(engine)).rejects.toThrow('PDF conversion failed');
+      }
+
+      expect(first.conversions + second.conversions).toBe(3);
+      expect(pool.getStats().map(instance => instance.circuit)).toEqual(['closed', 'closed']);
+      expect(pool.getStats().map(instance => instance.failures)).toEqual([0, 0]);
+    });
+
+    it('fails when every instance is out of rotation', async () => {
+      const { pool, engine } = await load({ ...env, GOTENBERG_URLS: [first.url, second.url].join(',') });
+      first.behaviour = 'error';
+      second.behaviour = 'error';
+
+      await expect(convert(engine)).rejects.toThrow('PDF conversion failed: Request failed with status code 503');
+      await expect(convert(engine)).rejects.toThrow('PDF conversion failed');
+      await expect(convert(engine)).rejects.toThrow('No Gotenberg instance is available');
+      expect(pool.getStats().map(instance => instance.circuit)).toEqual(['open', 'open']);
+    });
+
+    it('puts an instance back in rotation once its health check passes', async () => {
+      const { pool, engine } = await load({ ...env, GOTENBERG_URLS: [first.url, second.url].join(',') });
+      first.behaviour = 'error';
+      await convert(engine);
+      await convert(engine);
+      expect(pool.getStats()[0].circuit).toBe('open');
+
+      // Still failing: the probe leaves it out
+      expect(await pool.checkHealth()).toBe(true);
+      expect(pool.getStats()[0].circuit).toBe('open');
+
+      first.behaviour = 'ok';
+      expect(await pool.checkHealth()).toBe(true);
+      expect(pool.getStats()[0]).toMatchObject({ circuit: 'closed', consecutiveFailures: 0 });
+      expect(await convert(engine)).toBe('first');
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { parseRangeHeader } from '../src/utils/httpRange';
+
+describe('parseRangeHeader', () => {
+  const size = 100;
+
+  it('parses first-last, open-ended and suffix ranges', () => {
+    expect(parseRangeHeader('bytes=10-19', size)).toEqual({ start: 10, end: 19 });
+    expect(parseRangeHeader('bytes=90-', size)).toEqual({ start: 90, end: 99 });
+    expect(parseRangeHeader('bytes=-5', size)).toEqual({ start: 95, end: 99 });
+  });
+
+  it('clamps the last byte to the end of the resource', () => {
+    expect(parseRangeHeader('bytes=50-500', size)).toEqual({ start: 50, end: 99 });
+    expect(parseRangeHeader('bytes=-500', size)).toEqual({ start: 0, end: 99 });
+  });
+
+  it('ignores missing, malformed and multi-range headers', () => {
+    expect(parseRangeHeader(undefined, size)).toBeNull();
+    expect(parseRangeHeader('bytes=-', size)).toBeNull();
+    expect(parseRangeHeader('items=0-1', size)).toBeNull();
+    expect(parseRangeHeader('bytes=0-1,5-6', size)).toBeNull();
+  });
+
+  it('ignores a range whose last byte comes before its first', () => {
+    expect(parseRangeHeader('bytes=5-3', size)).toBeNull();
+    expect(parseRangeHeader('bytes=500-3', size)).toBeNull();
+  });
+
+  it('reports ranges outside the resource as unsatisfiable', () => {
+    expect(parseRangeHeader('bytes=100-', size)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=100-200', size)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=-0', size)).toBe('unsatisfiable');
+    expect(parseRangeHeader('bytes=0-', 0)).toBe('unsatisfiable');
+  });
+});
@@ -0,0 +1,121 @@
+import { once } from 'events';
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { makeTempDir, readBody, removeTempDir, startServer, StubServer } from './support/stubs';
+
+// Size of every PDF the stub Gotenberg returns
+const PDF_BYTES = 200 * 1024 * 1024;
+// Most memory a conversion may hold on to while passing such a PDF on
+const MAX_MEMORY_GROWTH = 48 * 1024 * 1024;
+
+/**
+ * Send a PDF of PDF_BYTES as the client reads it
+ */
+async function sendLargePdf(res: http.ServerResponse): Promise<void> {
+  const chunk = Buffer.alloc(64 * 1024, 'x');
+  res.writeHead(200, { 'Content-Type': 'application/pdf', 'Content-Length': PDF_BYTES });
+  for (let sent = 0; sent < PDF_BYTES; sent += chunk.length) {
+    if (!res.write(chunk)) {
+      await once(res, 'drain');
+    }
+  }
+  res.end();
+}
+
+/**
+ * Highest growth of heap and buffer memory while a task runs
+ */
+async function peakMemoryGrowth(task: () => Promise<void>): Promise<number> {
+  const used = (): number => {
+    const { heapUsed, arrayBuffers } = process.memoryUsage();
+    return heapUsed + arrayBuffers;
+  };
+  const baseline = used();
+  let peak = baseline;
+  const sampler = setInterval(() => {
+    peak = Math.max(peak, used());
+  }, 5);
+  try {
+    await task();
+  } finally {
+    clearInterval(sampler);
+  }
+  return Math.max(peak, used()) - baseline;
+}
+
+describe('PDF streaming', () => {
+  let workDir: string;
+  let gotenberg: StubServer;
+  const requests: string[] = [];
+  let conversionService: typeof import('../src/services/conversionService').default;
+
+  beforeAll(async () => {
+    gotenberg = await startServer(async (req, res) => {
+      const body = await readBody(req);
+      requests.push(/name="merge"/.test(body) ? 'merge' : 'convert');
+      await sendLargePdf(res);
+    });
+    process.env.GOTENBERG_URLS = gotenberg.url;
+    conversionService = (await import('../src/services/conversionService')).default;
+  });
+
+  afterAll(async () => {
+    await gotenberg.close();
+  });
+
+  beforeEach(() => {
+    workDir = makeTempDir('pdf-streaming-');
+    requests.length = 0;
+  });
+
+  afterEach(() => {
+    removeTempDir(workDir);
+  });
+
+  function stage(name: string): string {
+    const filePath = path.join(workDir, name);
+    fs.writeFileSync(filePath, 'document');
+    return filePath;
+  }
+
+  it('passes a converted PDF on without buffering it', async () => {
+    let received = 0;
+    const client = new Writable({
+      write(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        callback();
+      }
+    });
+
+    const growth = await peakMemoryGrowth(async () => {
+      const pdf = await conversionService.convertToPDFStream(stage('report.docx'), 'report.docx');
+      await pipeline(pdf.stream, client);
+    });
+
+    expect(received).toBe(PDF_BYTES);
+    expect(growth).toBeLessThan(MAX_MEMORY_GROWTH);
+  }, 60000);
+
+  it('streams engine merges to disk without buffering them', async () => {
+    const outputPath = path.join(workDir, 'merged.pdf');
+    let size = 0;
+
+    const growth = await peakMemoryGrowth(async () => {
+      size = await conversionService.mergeToPDFFile(
+        [
+          { filePath: stage('a.docx'), originalName: 'a.docx' },
+          { filePath: stage('b.xlsx'), originalName: 'b.xlsx' }
+        ],
+        outputPath
+      );
+    });
+
+    expect(requests).toEqual(['merge']);
+    expect(size).toBe(PDF_BYTES);
+    expect(fs.statSync(outputPath).size).toBe(PDF_BYTES);
+    expect(growth).toBeLessThan(MAX_MEMORY_GROWTH);
+  }, 60000);
+});
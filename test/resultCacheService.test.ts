@@ -0,0 +1,99 @@
+import { once } from 'events';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+const CHUNK = Buffer.alloc(64 * 1024, 'x');
+const CHUNKS = 128;
+
+/**
+ * An 8MB stream, far more than the buffers between it and its consumers hold
+ */
+function largeStream(): Readable {
+  return Readable.from((function* () {
+    for (let i = 0; i < CHUNKS; i++) {
+      yield CHUNK;
+    }
+  })());
+}
+
+/**
+ * A consumer that counts and discards what it is given
+ */
+function counter(): Writable & { bytes: number } {
+  const sink = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      sink.bytes += chunk.length;
+      callback();
+    }
+  }) as Writable & { bytes: number };
+  sink.bytes = 0;
+  return sink;
+}
+
+describe('resultCacheService.storeCopy', () => {
+  let resultCacheService: typeof import('../src/services/resultCacheService').default;
+  let storageService: typeof import('../src/services/storageService').default;
+  const set = jest.fn();
+
+  beforeAll(async () => {
+    resultCacheService = (await import('../src/services/resultCacheService')).default;
+    storageService = (await import('../src/services/storageService')).default;
+    // Stands in for the Redis connection made by initialize
+    Object.assign(resultCacheService, { redisClient: { set } });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    set.mockReset();
+  });
+
+  it('caches a copy of the stream while it is consumed', async () => {
+    let uploaded = 0;
+    jest.spyOn(storageService, 'uploadStream').mockImplementation(async (stream, objectName) => {
+      for await (const chunk of stream) {
+        uploaded += (chunk as Buffer).length;
+      }
+      return objectName;
+    });
+
+    const stream = largeStream();
+    const client = counter();
+    const cached = resultCacheService.storeCopy('abc', stream, {
+      resultSuffix: '.pdf',
+      contentType: 'application/pdf',
+      pdfSize: CHUNK.length * CHUNKS
+    });
+    await pipeline(stream, client);
+    await cached;
+
+    expect(client.bytes).toBe(CHUNK.length * CHUNKS);
+    expect(uploaded).toBe(CHUNK.length * CHUNKS);
+    expect(set).toHaveBeenCalledWith(
+      expect.stringContaining('abc'),
+      expect.stringContaining('"resultObject":"cache/abc/result"'),
+      expect.anything()
+    );
+  });
+
+  it('stops holding the stream back once the upload fails', async () => {
+    // A failed upload leaves its input unread, as MinIO's client does
+    jest.spyOn(storageService, 'uploadStream').mockImplementation(async (stream) => {
+      stream.pipe(new Writable({ highWaterMark: 1, write: () => undefined }));
+      await once(stream, 'pause');
+      throw new Error('MinIO unavailable');
+    });
+
+    const stream = largeStream();
+    const client = counter();
+    const cached = resultCacheService.storeCopy('abc', stream, {
+      resultSuffix: '.pdf',
+      contentType: 'application/pdf',
+      pdfSize: CHUNK.length * CHUNKS
+    });
+    await pipeline(stream, client);
+    await cached;
+
+    expect(client.bytes).toBe(CHUNK.length * CHUNKS);
+    expect(set).not.toHaveBeenCalled();
+  }, 5000);
+});
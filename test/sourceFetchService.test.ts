@@ -0,0 +1,201 @@
+import fs from 'fs';
+import http from 'http';
+import { makeTempDir, removeTempDir, startServer, StubServer } from './support/stubs';
+import { SourceFetchError, ValidationError } from '../src/utils/errors';
+
+const MAX_BYTES = 1024;
+const RTF = '{\\rtf1\\ansi stub document}';
+
+function redirect(res: http.ServerResponse, location: string): void {
+  res.writeHead(302, { Location: location });
+  res.end();
+}
+
+describe('sourceFetchService', () => {
+  let origin: StubServer;
+  let mirror: StubServer;
+  let internal: StubServer;
+  let internalRequests = 0;
+  let workDir: string;
+  let sourceFetchService: typeof import('../src/services/sourceFetchService').default;
+
+  /**
+   * Serves a document in the way its path names
+   */
+  const serveDocument: http.RequestListener = (req, res) => {
+    switch (req.url) {
+      case '/report.rtf':
+      case '/misnamed.docx':
+        res.end(RTF);
+        return;
+      case '/download':
+        res.writeHead(200, { 'Content-Disposition': 'attachment; filename="Quarterly Report.rtf"' });
+        res.end(RTF);
+        return;
+      case '/notes':
+        res.writeHead(200, { 'Content-Type': 'text/markdown; charset=utf-8' });
+        res.end('# Notes\n');
+        return;
+      case '/blob':
+        res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+        res.end(Buffer.from([0x00, 0x01, 0x02, 0x03]));
+        return;
+      case '/headers.txt':
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end(`authorization=${req.headers.authorization ?? ''}`);
+        return;
+      case '/declared-large.rtf':
+        res.writeHead(200, { 'Content-Length': MAX_BYTES + 1 });
+        res.end(Buffer.alloc(MAX_BYTES + 1, 'x'));
+        return;
+      case '/streamed-large.rtf':
+        // Chunked, so only counting the bytes reveals the size
+        res.write(RTF);
+        res.end(Buffer.alloc(MAX_BYTES, 'x'));
+        return;
+      case '/to-internal':
+        redirect(res, `${internal.url}/secret.rtf`);
+        return;
+      case '/to-mirror':
+        redirect(res, `${mirror.url}/headers.txt`);
+        return;
+      case '/to-same-host':
+        redirect(res, '/headers.txt');
+        return;
+      case '/loop':
+        redirect(res, '/loop');
+        return;
+      default:
+        res.statusCode = 404;
+        res.end();
+    }
+  };
+
+  beforeAll(async () => {
+    [origin, mirror, internal] = await Promise.all([
+      startServer(serveDocument),
+      startServer(serveDocument),
+      startServer((_req, res) => {
+        internalRequests++;
+        res.end(RTF);
+      })
+    ]);
+    const host = (server: StubServer): string => new URL(server.url).host;
+    process.env.SOURCE_URL_ALLOWED_HOSTS = `${host(origin)},${host(mirror)}`;
+    process.env.SOURCE_URL_MAX_BYTES = String(MAX_BYTES);
+    sourceFetchService = (await import('../src/services/sourceFetchService')).default;
+  });
+
+  afterAll(async () => {
+    await Promise.all([origin.close(), mirror.close(), internal.close()]);
+  });
+
+  beforeEach(() => {
+    workDir = makeTempDir('source-fetch-');
+    internalRequests = 0;
+  });
+
+  afterEach(() => {
+    removeTempDir(workDir);
+  });
+
+  function fetchSource(pathname: string, headers?: Record<string, string>) {
+    return sourceFetchService.fetchToFile(
+      sourceFetchService.parseReference({ sourceUrl: `${origin.url}${pathname}`, headers }),
+      workDir
+    );
+  }
+
+  describe('parseReference', () => {
+    it('accepts URLs on allowed hosts', () => {
+      expect(sourceFetchService.parseReference({ sourceUrl: `${origin.url}/report.rtf` })).toEqual({
+        sourceUrl: `${origin.url}/report.rtf`,
+        headers: undefined
+      });
+    });
+
+    it('rejects hosts that are not allowed, including other ports of an allowed host', () => {
+      expect(() => sourceFetchService.parseReference({ sourceUrl: `${internal.url}/secret.rtf` })).toThrow(ValidationError);
+      expect(() => sourceFetchService.parseReference({ sourceUrl: 'http://169.254.169.254/latest/meta-data' })).toThrow(
+        'sourceUrl host 169.254.169.254 is not allowed'
+      );
+    });
+
+    it('rejects credentials in the URL and other schemes', () => {
+      const { host } = new URL(origin.url);
+      expect(() => sourceFetchService.parseReference({ sourceUrl: `http://user:secret@${host}/report.rtf` })).toThrow(ValidationError);
+      expect(() => sourceFetchService.parseReference({ sourceUrl: `ftp://${host}/report.rtf` })).toThrow(ValidationError);
+      expect(() => sourceFetchService.parseReference({ sourceUrl: 'report.rtf' })).toThrow('sourceUrl must be an absolute http(s) URL');
+    });
+
+    it('rejects headers that describe the connection', () => {
+      expect(() => sourceFetchService.parseReference({ sourceUrl: `${origin.url}/report.rtf`, headers: { Host: 'internal' } }))
+        .toThrow('header Host cannot be sent to the source host');
+      expect(() => sourceFetchService.parseReference({ sourceUrl: `${origin.url}/report.rtf`, headers: { 'X-Token': 'a\r\nb' } }))
+        .toThrow('header X-Token must be a single-line string');
+    });
+  });
+
+  describe('fetchToFile', () => {
+    it('downloads a document named after its URL', async () => {
+      const source = await fetchSource('/report.rtf');
+
+      expect(source).toMatchObject({ originalName: 'report.rtf', mimeType: 'application/rtf', size: RTF.length });
+      expect(fs.readFileSync(source.path, 'utf8')).toBe(RTF);
+    });
+
+    it('names documents after their Content-Disposition', async () => {
+      expect((await fetchSource('/download')).originalName).toBe('Quarterly Report.rtf');
+    });
+
+    it('types documents by their content rather than their name', async () => {
+      const source = await fetchSource('/misnamed.docx');
+      expect(source).toMatchObject({ originalName: 'misnamed.rtf', mimeType: 'application/rtf' });
+      expect(source.path.endsWith('.rtf')).toBe(true);
+    });
+
+    it('falls back to the Content-Type for plain text formats', async () => {
+      expect(await fetchSource('/notes')).toMatchObject({ originalName: 'notes.md', mimeType: 'text/markdown' });
+    });
+
+    it('rejects documents of unsupported types', async () => {
+      await expect(fetchSource('/blob')).rejects.toThrow('Unsupported source document type');
+      expect(fs.readdirSync(workDir)).toEqual([]);
+    });
+
+    it('rejects documents whose Content-Length exceeds the size cap', async () => {
+      await expect(fetchSource('/declared-large.rtf')).rejects.toThrow(ValidationError);
+      expect(fs.readdirSync(workDir)).toEqual([]);
+    });
+
+    it('stops streamed downloads once they exceed the size cap', async () => {
+      await expect(fetchSource('/streamed-large.rtf')).rejects.toThrow('Source document exceeds the maximum size');
+      expect(fs.readdirSync(workDir)).toEqual([]);
+    });
+
+    it('refuses redirects to hosts that are not allowed without contacting them', async () => {
+      await expect(fetchSource('/to-internal')).rejects.toThrow(`sourceUrl redirected to ${new URL(internal.url).host}, which is not allowed`);
+      expect(internalRequests).toBe(0);
+    });
+
+    it('drops the caller headers on redirects to another host', async () => {
+      const source = await fetchSource('/to-mirror', { Authorization: 'Bearer secret' });
+      expect(fs.readFileSync(source.path, 'utf8')).toBe('authorization=');
+    });
+
+    it('keeps the caller headers on redirects within the host', async () => {
+      const source = await fetchSource('/to-same-host', { Authorization: 'Bearer secret' });
+      expect(fs.readFileSync(source.path, 'utf8')).toBe('authorization=Bearer secret');
+    });
+
+    it('gives up after too many redirects', async () => {
+      await expect(fetchSource('/loop')).rejects.toThrow('Could not fetch sourceUrl: too many redirects');
+    });
+
+    it('reports error responses of the source host', async () => {
+      const failure = fetchSource('/missing.rtf');
+      await expect(failure).rejects.toThrow(SourceFetchError);
+      await expect(failure).rejects.toThrow('responded with status 404');
+    });
+  });
+});
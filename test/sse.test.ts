@@ -0,0 +1,124 @@
+import express from 'express';
+import http from 'http';
+import { startServer, StubServer } from './support/stubs';
+import { SseMessage } from '../src/types';
+import { serveEventStream } from '../src/utils/sse';
+
+type JobState = 'processing' | 'completed';
+
+/**
+ * Read a whole event stream; the promise stays pending while the stream is open
+ */
+function readStream(url: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    http.get(url, (res) => {
+      let body = '';
+      res.on('data', (chunk: Buffer) => {
+        body += chunk.toString();
+      });
+      res.on('end', () => resolve(body));
+    }).on('error', reject);
+  });
+}
+
+function eventNames(body: string): string[] {
+  return [...body.matchAll(/^event: (\w+)$/gm)].map(match => match[1]);
+}
+
+describe('serveEventStream', () => {
+  let server: StubServer;
+  let jobs: Record<string, JobState>;
+  let listeners: ((jobId: string) => void)[];
+  let unsubscribed: number;
+  // Runs between reading the first and the second job of the snapshot
+  let duringSnapshot: () => void;
+
+  /**
+   * Status messages of a two-job batch, terminal once both are completed
+   */
+  function batchMessages(states: JobState[]): SseMessage[] {
+    const done = states.every(state => state === 'completed');
+    const messages: SseMessage[] = [{ event: 'status', data: states }];
+    if (done) {
+      messages.push({ event: 'completed', data: states, terminal: true });
+    }
+    return messages;
+  }
+
+  function complete(jobId: string): void {
+    jobs[jobId] = 'completed';
+    listeners.forEach(listener => listener(jobId));
+  }
+
+  beforeAll(async () => {
+    const app = express();
+    app.get('/events', async (req, res) => {
+      const found = await serveEventStream<string>(
+        req,
+        res,
+        async (listener) => {
+          listeners.push(listener);
+          return async () => {
+            unsubscribed++;
+            listeners = listeners.filter(registered => registered !== listener);
+          };
+        },
+        // Reads the jobs one after another, like getBatchStatus
+        async () => {
+          const first = jobs.a;
+          await new Promise(resolve => setImmediate(resolve));
+          duringSnapshot();
+          const second = jobs.b;
+          return batchMessages([first, second]);
+        },
+        async () => batchMessages([jobs.a, jobs.b])
+      );
+      if (!found) {
+        res.status(404).end();
+      }
+    });
+    server = await startServer(app);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    jobs = { a: 'processing', b: 'processing' };
+    listeners = [];
+    unsubscribed = 0;
+    duringSnapshot = () => undefined;
+  });
+
+  it('replays events that arrive while the snapshot is read', async () => {
+    // The first job completes after it was read, the second before: the
+    // snapshot shows neither as the last, so only the replay ends the stream
+    duringSnapshot = () => {
+      complete('a');
+      complete('b');
+    };
+
+    const body = await readStream(`${server.url}/events`);
+
+    expect(eventNames(body)).toEqual(['status', 'status', 'completed']);
+    expect(unsubscribed).toBe(1);
+  }, 5000);
+
+  it('passes on events after the snapshot', async () => {
+    const stream = readStream(`${server.url}/events`);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    complete('a');
+    complete('b');
+
+    expect(eventNames(await stream)).toEqual(['status', 'status', 'completed']);
+    expect(unsubscribed).toBe(1);
+  }, 5000);
+
+  it('ends with the snapshot when it is terminal', async () => {
+    jobs = { a: 'completed', b: 'completed' };
+    duringSnapshot = () => complete('b');
+
+    expect(eventNames(await readStream(`${server.url}/events`))).toEqual(['status', 'completed']);
+  }, 5000);
+});
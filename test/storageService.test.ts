@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import http from 'http';
+import { Readable } from 'stream';
+import { startServer, StubServer } from './support/stubs';
+import { ZipEntry } from '../src/types';
+
+// Incompressible, so the archive passes on about as much as it reads
+const CHUNK_BYTES = 64 * 1024;
+
+/**
+ * An object download of the given size that records whether it was destroyed
+ */
+function objectStream(bytes: number): Readable & { sent: number } {
+  const stream = new Readable({
+    read() {
+      if (stream.sent >= bytes) {
+        this.push(null);
+        return;
+      }
+      stream.sent += CHUNK_BYTES;
+      this.push(crypto.randomBytes(CHUNK_BYTES));
+    }
+  }) as Readable & { sent: number };
+  stream.sent = 0;
+  return stream;
+}
+
+describe('storageService.streamZip', () => {
+  let storageService: typeof import('../src/services/storageService').default;
+  let server: StubServer;
+  let objects: (Readable & { sent: number })[];
+  let objectBytes: number;
+  let streamed: Promise<boolean>;
+
+  const entries: ZipEntry[] = [
+    { name: 'a/report.pdf', objectName: 'job-a/report.pdf' },
+    { name: 'b/report.pdf', objectName: 'job-b/report.pdf' },
+    { name: 'c/report.pdf', objectName: 'job-c/report.pdf' },
+    { name: 'manifest.json', content: '{}' }
+  ];
+
+  beforeAll(async () => {
+    storageService = (await import('../src/services/storageService')).default;
+    // Stands in for the MinIO client made by initialize
+    Object.assign(storageService, {
+      minioClient: {
+        getObject: async () => {
+          const stream = objectStream(objectBytes);
+          objects.push(stream);
+          return stream;
+        }
+      }
+    });
+    server = await startServer((_req, res) => {
+      streamed = storageService.streamZip(entries, res);
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    objects = [];
+  });
+
+  it('streams every entry into the archive', async () => {
+    objectBytes = 4 * CHUNK_BYTES;
+
+    const body = await new Promise<Buffer>((resolve, reject) => {
+      http.get(server.url, (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => resolve(Buffer.concat(chunks)));
+      }).on('error', reject);
+    });
+
+    expect(await streamed).toBe(true);
+    expect(objects).toHaveLength(3);
+    expect(body.subarray(0, 2).toString()).toBe('PK');
+    for (const { name } of entries) {
+      expect(body.includes(Buffer.from(name))).toBe(true);
+    }
+  });
+
+  it('stops reading objects once the client disconnects', async () => {
+    objectBytes = 64 * 1024 * 1024;
+
+    await new Promise<void>((resolve) => {
+      const request = http.get(server.url, (res) => {
+        let received = 0;
+        res.on('data', (chunk: Buffer) => {
+          received += chunk.length;
+          if (received > 1024 * 1024) {
+            request.destroy();
+            resolve();
+          }
+        });
+      });
+      request.on('error', () => undefined);
+    });
+
+    expect(await streamed).toBe(false);
+    expect(objects).toHaveLength(1);
+    expect(objects[0].destroyed).toBe(true);
+    expect(objects[0].sent).toBeLessThan(objectBytes);
+  }, 10000);
+});
+
+describe('storageService.setPrefixExpiry', () => {
+  let storageService: typeof import('../src/services/storageService').default;
+  let lifecycle: { Rule: Record<string, unknown>[] } | null;
+
+  beforeAll(async () => {
+    storageService = (await import('../src/services/storageService')).default;
+  });
+
+  beforeEach(() => {
+    lifecycle = null;
+    Object.assign(storageService, {
+      minioClient: {
+        getBucketLifecycle: async () => {
+          if (!lifecycle) {
+            throw Object.assign(new Error('The lifecycle configuration does not exist'), {
+              code: 'NoSuchLifecycleConfiguration'
+            });
+          }
+          return lifecycle;
+        },
+        setBucketLifecycle: async (_bucket: string, config: { Rule: Record<string, unknown>[] }) => {
+          lifecycle = config;
+        }
+      }
+    });
+  });
+
+  it('adds an expiry rule to a bucket without lifecycle rules', async () => {
+    await storageService.setPrefixExpiry('cache/', 2);
+
+    expect(lifecycle?.Rule).toEqual([
+      { ID: 'expire-cache', Status: 'Enabled', Filter: { Prefix: 'cache/' }, Expiration: { Days: 2 } }
+    ]);
+  });
+
+  it('replaces its own rule and keeps the others', async () => {
+    const other = { ID: 'archive', Status: 'Enabled', Filter: { Prefix: 'archive/' }, Expiration: { Days: 30 } };
+    lifecycle = { Rule: [other] };
+
+    await storageService.setPrefixExpiry('cache/', 2);
+    await storageService.setPrefixExpiry('cache/', 1);
+
+    expect(lifecycle?.Rule).toEqual([
+      other,
+      { ID: 'expire-cache', Status: 'Enabled', Filter: { Prefix: 'cache/' }, Expiration: { Days: 1 } }
+    ]);
+  });
+});
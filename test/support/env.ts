@@ -0,0 +1,2 @@
+// Keep service logs out of the test output unless asked for
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
@@ -0,0 +1,9 @@
+import path from 'path';
+
+/**
+ * Put the stub poppler tools first on the PATH. Child processes see the PATH of
+ * the jest process rather than the per-test `process.env`, so it is set here.
+ */
+export default function globalSetup(): void {
+  process.env.PATH = `${path.join(__dirname, 'bin')}${path.delimiter}${process.env.PATH}`;
+}
@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import http from 'http';
+import { readBody, startServer, StubServer } from './support/stubs';
+import { WebhookDelivery } from '../src/types';
+
+type WebhookService = typeof import('../src/services/webhookService').default;
+
+/**
+ * Load the webhook service with fresh state, read from the given environment,
+ * and a stand-in for the Redis connection that records delivery attempts
+ */
+async function load(env: Record<string, string | undefined>): Promise<{ service: WebhookService; attempts: unknown[] }> {
+  for (const [name, value] of Object.entries(env)) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+  let service: WebhookService | undefined;
+  await jest.isolateModulesAsync(async () => {
+    service = (await import('../src/services/webhookService')).default;
+  });
+
+  const attempts: unknown[] = [];
+  Object.assign(service as WebhookService, {
+    redisClient: {
+      lPush: async (_key: string, entry: string) => attempts.push(JSON.parse(entry)),
+      lTrim: async () => 'OK',
+      expire: async () => true
+    }
+  });
+  return { service: service as WebhookService, attempts };
+}
+
+function delivery(url: string, secret?: string): WebhookDelivery {
+  return {
+    deliveryId: 'delivery-1',
+    subjectId: 'job-1',
+    callback: { url, secret },
+    payload: {
+      event: 'job.completed',
+      timestamp: '2024-01-15T10:30:45.000Z',
+      data: { jobId: 'job-1', status: 'completed', originalName: 'report.docx', format: 'pdf', progress: 100 }
+    }
+  };
+}
+
+describe('webhookService', () => {
+  let receiver: StubServer;
+  const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+
+  beforeAll(async () => {
+    receiver = await startServer(async (req, res) => {
+      received.push({ headers: req.headers, body: await readBody(req) });
+      res.end();
+    });
+  });
+
+  afterAll(async () => {
+    await receiver.close();
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+  });
+
+  describe('destinations', () => {
+    let service: WebhookService;
+    let attempts: unknown[];
+
+    beforeAll(async () => {
+      ({ service, attempts } = await load({ WEBHOOK_ALLOW_PRIVATE_NETWORKS: undefined }));
+    });
+
+    beforeEach(() => {
+      attempts.length = 0;
+    });
+
+    it('allows http(s) URLs on public hosts', () => {
+      expect(service.isAllowedDestination(new URL('https://example.com/hooks'))).toBe(true);
+      expect(service.isAllowedDestination(new URL('http://93.184.216.34:8080/hooks'))).toBe(true);
+      expect(service.isAllowedDestination(new URL('http://[2606:2800:220:1::]/hooks'))).toBe(true);
+    });
+
+    it('refuses other schemes and non-public IP addresses', () => {
+      for (const url of [
+        'ftp://example.com/hooks',
+        'http://127.0.0.1:3000/',
+        'http://10.0.0.5/',
+        'http://172.20.0.3:9000/',
+        'http://192.168.1.1/',
+        'http://169.254.169.254/latest/meta-data',
+        'http://0.0.0.0:8080/',
+        'http://[::1]/',
+        'http://[::ffff:127.0.0.1]/',
+        'http://[fd00::1]/',
+        'http://[fe80::1]/'
+      ]) {
+        expect(service.isAllowedDestination(new URL(url))).toBe(false);
+      }
+    });
+
+    it('does not deliver to non-public IP addresses', async () => {
+      await expect(service.deliver(delivery(`${receiver.url}/hooks`), 1)).rejects.toThrow('is not a public address');
+      await expect(service.deliver(delivery('http://169.254.169.254/latest/meta-data'), 1)).rejects.toThrow(
+        'is not a public address'
+      );
+      expect(received).toHaveLength(0);
+      // Nothing about the destination beyond the refusal reaches the delivery log
+      const refused = expect.objectContaining({ success: false, error: expect.stringMatching(/is not a public address$/) });
+      expect(attempts).toEqual([refused, refused]);
+      expect(attempts[0]).not.toHaveProperty('statusCode');
+    });
+
+    it('does not deliver to host names that resolve to non-public addresses', async () => {
+      const { port } = new URL(receiver.url);
+      await expect(service.deliver(delivery(`http://localhost:${port}/hooks`), 1)).rejects.toThrow(
+        'localhost resolves to a non-public address'
+      );
+      expect(received).toHaveLength(0);
+    });
+  });
+
+  describe('with WEBHOOK_ALLOW_PRIVATE_NETWORKS', () => {
+    let service: WebhookService;
+    let attempts: unknown[];
+
+    beforeAll(async () => {
+      ({ service, attempts } = await load({ WEBHOOK_ALLOW_PRIVATE_NETWORKS: 'true' }));
+    });
+
+    afterAll(() => {
+      delete process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS;
+    });
+
+    it('delivers to internal receivers', async () => {
+      expect(service.isAllowedDestination(new URL(receiver.url))).toBe(true);
+      await service.deliver(delivery(`${receiver.url}/hooks`), 1);
+
+      expect(received).toHaveLength(1);
+      expect(attempts).toEqual([expect.objectContaining({ success: true, statusCode: 200, attempt: 1 })]);
+    });
+
+    it('signs the delivery timestamp along with the body', async () => {
+      const before = Math.floor(Date.now() / 1000);
+      await service.deliver(delivery(`${receiver.url}/hooks`, 'shared-secret'), 1);
+
+      const [{ headers, body }] = received;
+      const timestamp = Number(headers['x-webhook-timestamp']);
+      expect(timestamp).toBeGreaterThanOrEqual(before);
+      expect(timestamp).toBeLessThanOrEqual(Math.floor(Date.now() / 1000));
+
+      const expected = crypto.createHmac('sha256', 'shared-secret').update(`${timestamp}.${body}`).digest('hex');
+      expect(headers['x-signature-256']).toBe(`sha256=${expected}`);
+      expect(JSON.parse(body)).toMatchObject({ event: 'job.completed', data: { jobId: 'job-1' } });
+    });
+  });
+});